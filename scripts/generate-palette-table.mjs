@@ -0,0 +1,115 @@
+#!/usr/bin/env node
+/**
+ * Generate a typed palette table module from GW2 API snapshots
+ *
+ * Usage:
+ *   node scripts/generate-palette-table.mjs <professions.json> [legends.json] [--out <file>] [--import <specifier>]
+ *
+ * - professions.json: saved response of /v2/professions?ids=all
+ *   (requested with X-Schema-Version: 2019-12-19T00:00:00.000Z or later)
+ * - legends.json: saved response of /v2/legends?ids=all (Revenant legend palettes)
+ * - --out: output file (default: stdout)
+ * - --import: module specifier the generated file imports its types from
+ *   (default: @vip-gw2-guilds/gw2-build-decoder)
+ *
+ * Requires a build (`pnpm build`), as the conversion lives in dist/.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { createPaletteTable } from '../dist/index.js';
+
+const DEFAULT_IMPORT = '@vip-gw2-guilds/gw2-build-decoder';
+
+function parseArgs(argv) {
+  const options = { inputs: [], out: undefined, importFrom: DEFAULT_IMPORT };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--out') {
+      options.out = argv[++i];
+    } else if (arg === '--import') {
+      options.importFrom = argv[++i];
+    } else {
+      options.inputs.push(arg);
+    }
+  }
+
+  return options;
+}
+
+async function readJson(path) {
+  return JSON.parse(await readFile(path, 'utf8'));
+}
+
+function render(table, sources, importFrom) {
+  const professions = Object.entries(table.professions)
+    .map(([code, pairs]) => {
+      const rows = pairs
+        .map(([paletteIndex, skillId]) => `[${paletteIndex}, ${skillId}]`)
+        .join(', ');
+      return `    ${code}: [${rows}],`;
+    })
+    .join('\n');
+
+  const legends = table.legends
+    ? [
+        '  legends: {',
+        ...Object.entries(table.legends).map(
+          ([code, legend]) =>
+            `    ${code}: { heal: ${legend.heal}, utilities: [${legend.utilities.join(', ')}], elite: ${legend.elite} },`,
+        ),
+        '  },',
+      ].join('\n')
+    : undefined;
+
+  return [
+    '/**',
+    ` * Palette table generated from ${sources.join(', ')}`,
+    ' *',
+    ' * Generated by scripts/generate-palette-table.mjs - do not edit by hand.',
+    ' */',
+    '',
+    `import type { PaletteTableData } from '${importFrom}';`,
+    '',
+    'export const PALETTE_TABLE: PaletteTableData = {',
+    '  professions: {',
+    professions,
+    '  },',
+    ...(legends ? [legends] : []),
+    '};',
+    '',
+  ].join('\n');
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const [professionsPath, legendsPath] = options.inputs;
+
+  if (!professionsPath) {
+    console.error(
+      'Usage: generate-palette-table.mjs <professions.json> [legends.json] [--out <file>] [--import <specifier>]',
+    );
+    process.exit(1);
+  }
+
+  const professions = await readJson(professionsPath);
+  const legends = legendsPath ? await readJson(legendsPath) : [];
+  const table = createPaletteTable(professions, legends);
+  const source = render(
+    table,
+    options.inputs.map((path) => path.split(/[\\/]/).pop()),
+    options.importFrom,
+  );
+
+  if (options.out) {
+    await writeFile(options.out, source);
+    console.error(`Wrote ${options.out}`);
+  } else {
+    process.stdout.write(source);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+/**
+ * Download GW2 API snapshots for SnapshotMetadataProvider and TablePaletteMapper
+ *
+ * Usage:
+ *   node scripts/refresh-snapshots.mjs [--out <dir>] [--base-url <url>] [--endpoints <list>] [--lang <code>] [--page-size <n>]
+ *
+ * - --out: directory the snapshots are written to as <endpoint>.json (default: snapshots)
+ * - --base-url: API root (default: https://api.guildwars2.com); point it at a
+ *   local mock server to refresh snapshots without internet access
+ * - --endpoints: comma-separated /v2 endpoints
+ *   (default: skills,specializations,pets,professions,legends)
+ * - --lang: language of names (default: en)
+ * - --page-size: entries per request (default: 200, the API maximum)
+ *
+ * Endpoints are read page by page (`?page=N&page_size=M`) until the
+ * `X-Page-Total` header says the last page was reached.
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+const DEFAULT_ENDPOINTS = [
+  'skills',
+  'specializations',
+  'pets',
+  'professions',
+  'legends',
+];
+
+// Schema with `code` and `skills_by_palette` on /v2/professions
+const SCHEMA_VERSION = '2019-12-19T00:00:00.000Z';
+
+function parseArgs(argv) {
+  const options = {
+    out: 'snapshots',
+    baseUrl: 'https://api.guildwars2.com',
+    endpoints: DEFAULT_ENDPOINTS,
+    lang: 'en',
+    pageSize: 200,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--out') {
+      options.out = argv[++i];
+    } else if (arg === '--base-url') {
+      options.baseUrl = argv[++i];
+    } else if (arg === '--endpoints') {
+      options.endpoints = argv[++i].split(',').filter(Boolean);
+    } else if (arg === '--lang') {
+      options.lang = argv[++i];
+    } else if (arg === '--page-size') {
+      options.pageSize = Number(argv[++i]);
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+async function fetchEndpoint(endpoint, options) {
+  const entries = [];
+
+  for (let page = 0, pageTotal = 1; page < pageTotal; page++) {
+    const url = new URL(`/v2/${endpoint}`, options.baseUrl);
+    url.searchParams.set('page', String(page));
+    url.searchParams.set('page_size', String(options.pageSize));
+    url.searchParams.set('lang', options.lang);
+
+    const response = await fetch(url, {
+      headers: { 'X-Schema-Version': SCHEMA_VERSION },
+    });
+    if (!response.ok) {
+      throw new Error(
+        `GET ${url} failed: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const body = await response.json();
+    if (!Array.isArray(body)) {
+      throw new Error(`GET ${url} did not return an array`);
+    }
+    entries.push(...body);
+
+    pageTotal = Number(response.headers.get('X-Page-Total') ?? page + 1);
+  }
+
+  return entries;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  await mkdir(options.out, { recursive: true });
+
+  for (const endpoint of options.endpoints) {
+    const entries = await fetchEndpoint(endpoint, options);
+    const file = join(options.out, `${endpoint}.json`);
+    await writeFile(file, `${JSON.stringify(entries, null, 2)}\n`);
+    console.error(`Wrote ${entries.length} ${endpoint} to ${file}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
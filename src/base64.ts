@@ -0,0 +1,132 @@
+/**
+ * Runtime-neutral base64 encoding/decoding
+ *
+ * Works on plain Uint8Arrays so the library runs in browsers, edge runtimes
+ * and Deno without Node's Buffer.
+ */
+
+import { BuildCodeError, BuildCodeErrorCode } from './errors.js';
+
+/** Standard base64 alphabet (RFC 4648) */
+const ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/** Character code → 6-bit value (-1 for characters outside the alphabet) */
+const DECODE_TABLE: Int8Array = (() => {
+  const table = new Int8Array(128).fill(-1);
+  for (let i = 0; i < ALPHABET.length; i++) {
+    table[ALPHABET.charCodeAt(i)] = i;
+  }
+  // URL-safe variants, accepted like Node's Buffer does
+  table['-'.charCodeAt(0)] = 62;
+  table['_'.charCodeAt(0)] = 63;
+  return table;
+})();
+
+/**
+ * Decode a base64 string into bytes
+ *
+ * Mirrors the forgiving behaviour of `Buffer.from(str, 'base64')`: characters
+ * outside the alphabet are skipped and decoding stops at the first `=`.
+ *
+ * @param input - Base64 string
+ * @returns Decoded bytes
+ */
+export function decodeBase64(input: string): Uint8Array {
+  const bytes = new Uint8Array(Math.floor((input.length * 3) / 4));
+  let length = 0;
+  let bits = 0;
+  let bitCount = 0;
+
+  for (let i = 0; i < input.length; i++) {
+    const code = input.charCodeAt(i);
+    if (code === 0x3d) break; // '='
+
+    const value = code < 128 ? DECODE_TABLE[code] : -1;
+    if (value === -1) continue;
+
+    bits = (bits << 6) | value;
+    bitCount += 6;
+
+    if (bitCount >= 8) {
+      bitCount -= 8;
+      bytes[length++] = (bits >> bitCount) & 0xff;
+    }
+  }
+
+  return bytes.slice(0, length);
+}
+
+/**
+ * Decode a base64 string, rejecting anything that is not standard padded base64
+ *
+ * @param input - Base64 string
+ * @param offset - Position of `input` within the original chat link, used for error offsets
+ * @returns Decoded bytes
+ * @throws {BuildCodeError} INVALID_BASE64_CHARACTER or INVALID_BASE64_PADDING
+ */
+export function decodeBase64Strict(
+  input: string,
+  offset: number = 0,
+): Uint8Array {
+  const paddingStart = input.indexOf('=');
+  const dataLength = paddingStart === -1 ? input.length : paddingStart;
+
+  for (let i = 0; i < dataLength; i++) {
+    if (ALPHABET.indexOf(input[i]) === -1) {
+      throw new BuildCodeError(
+        `Invalid base64 character ${JSON.stringify(input[i])} at position ${offset + i}`,
+        BuildCodeErrorCode.INVALID_BASE64_CHARACTER,
+        undefined,
+        { offset: offset + i },
+      );
+    }
+  }
+
+  for (let i = dataLength; i < input.length; i++) {
+    if (input[i] !== '=') {
+      throw new BuildCodeError(
+        `Unexpected character ${JSON.stringify(input[i])} after base64 padding at position ${offset + i}`,
+        BuildCodeErrorCode.INVALID_BASE64_PADDING,
+        undefined,
+        { offset: offset + i },
+      );
+    }
+  }
+
+  const paddingLength = input.length - dataLength;
+  if (input.length % 4 !== 0 || paddingLength > 2) {
+    throw new BuildCodeError(
+      `Invalid base64 padding: ${input.length} characters with ${paddingLength} padding characters`,
+      BuildCodeErrorCode.INVALID_BASE64_PADDING,
+      undefined,
+      { offset: offset + dataLength },
+    );
+  }
+
+  return decodeBase64(input);
+}
+
+/**
+ * Encode bytes as a padded base64 string
+ *
+ * @param bytes - Bytes to encode
+ * @returns Base64 string (standard alphabet, `=` padded)
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let output = '';
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    const triple = (b0 << 16) | (b1 << 8) | b2;
+
+    output += ALPHABET[(triple >> 18) & 0x3f];
+    output += ALPHABET[(triple >> 12) & 0x3f];
+    output += i + 1 < bytes.length ? ALPHABET[(triple >> 6) & 0x3f] : '=';
+    output += i + 2 < bytes.length ? ALPHABET[triple & 0x3f] : '=';
+  }
+
+  return output;
+}
@@ -83,6 +83,13 @@ export class BinaryView {
     this.pos = pos;
   }
 
+  /**
+   * Number of bytes left after the current position
+   */
+  get remaining(): number {
+    return this.view.byteLength - this.pos;
+  }
+
   /**
    * Get the underlying buffer
    */
@@ -0,0 +1,81 @@
+/**
+ * Utility for writing binary data into a fixed-size Uint8Array with position tracking
+ */
+export class BinaryWriter {
+  private bytes: Uint8Array;
+  private view: DataView;
+  private pos: number = 0;
+
+  /**
+   * Create a new BinaryWriter
+   * @param length - Total number of bytes to allocate (zero-filled)
+   */
+  constructor(length: number) {
+    this.bytes = new Uint8Array(length);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  /**
+   * Write a byte and advance position
+   * @param value - The byte value
+   */
+  writeByte(value: number): void {
+    this.view.setUint8(this.pos++, value);
+  }
+
+  /**
+   * Write a uint16 (little-endian) and advance position
+   * @param value - The uint16 value
+   */
+  writeUInt16LE(value: number): void {
+    this.view.setUint16(this.pos, value, true);
+    this.pos += 2;
+  }
+
+  /**
+   * Write a uint32 (little-endian) and advance position
+   * @param value - The uint32 value
+   */
+  writeUInt32LE(value: number): void {
+    this.view.setUint32(this.pos, value, true);
+    this.pos += 4;
+  }
+
+  /**
+   * Copy raw bytes and advance position
+   * @param bytes - The bytes to write
+   */
+  writeBytes(bytes: ArrayLike<number>): void {
+    this.bytes.set(bytes, this.pos);
+    this.pos += bytes.length;
+  }
+
+  /**
+   * Skip forward by N bytes (left zero-filled)
+   * @param bytes - Number of bytes to skip
+   */
+  skip(bytes: number): void {
+    this.pos += bytes;
+  }
+
+  /**
+   * Get current position
+   */
+  get position(): number {
+    return this.pos;
+  }
+
+  /**
+   * Set current position
+   */
+  set position(pos: number) {
+    this.pos = pos;
+  }
+
+  /**
+   * Get the written bytes
+   */
+  get buffer(): Uint8Array {
+    return this.bytes;
+  }
+}
@@ -0,0 +1,482 @@
+/**
+ * Codecs for non-build GW2 chat links (items, skins, skills, traits, ...)
+ */
+
+import { encodeBase64 } from './base64.js';
+import { BinaryView } from './binary-view.js';
+import { BinaryWriter } from './binary-writer.js';
+import {
+  CHAT_LINK_TYPE_INDICATORS,
+  ITEM_LINK_FLAGS,
+  OFFICIAL_TYPE_INDICATOR,
+} from './constants.js';
+import { decodeChatLinkBytes } from './decoder.js';
+import { BuildCodeError, BuildCodeErrorCode } from './errors.js';
+
+/**
+ * Item link (type 0x02)
+ *
+ * Skin and upgrade IDs are only present in links of customised items, e.g. a
+ * transmuted weapon with sigils or armor with a rune.
+ */
+export interface ItemLink {
+  type: 'item';
+  /** Item ID (3 bytes) */
+  id: number;
+  /** Stack size (1-255) */
+  quantity: number;
+  /** Wardrobe skin applied to the item */
+  skin?: number;
+  /** First upgrade (sigil, rune, infusion, ...) item ID */
+  upgrade1?: number;
+  /** Second upgrade item ID (second sigil of two-handed weapons) */
+  upgrade2?: number;
+}
+
+/**
+ * Point of interest, waypoint or vista link (type 0x04)
+ */
+export interface MapChatLink {
+  type: 'map';
+  /** POI ID, as in `/v2/maps/:id` `points_of_interest` */
+  id: number;
+}
+
+/**
+ * Skill link (type 0x06)
+ */
+export interface SkillChatLink {
+  type: 'skill';
+  id: number;
+}
+
+/**
+ * Trait link (type 0x07)
+ */
+export interface TraitChatLink {
+  type: 'trait';
+  id: number;
+}
+
+/**
+ * Recipe link (type 0x09)
+ */
+export interface RecipeChatLink {
+  type: 'recipe';
+  id: number;
+}
+
+/**
+ * Wardrobe skin link (type 0x0A)
+ */
+export interface SkinChatLink {
+  type: 'skin';
+  id: number;
+}
+
+/**
+ * Outfit link (type 0x0B)
+ */
+export interface OutfitChatLink {
+  type: 'outfit';
+  id: number;
+}
+
+/**
+ * WvW objective link (type 0x0C)
+ *
+ * The `/v2/wvw/objectives` ID is `${mapId}-${objectiveId}`.
+ */
+export interface WvwObjectiveChatLink {
+  type: 'wvwObjective';
+  objectiveId: number;
+  mapId: number;
+}
+
+/**
+ * Any chat link handled by the default codecs, keyed by `type`
+ */
+export type ChatLink =
+  | ItemLink
+  | MapChatLink
+  | SkillChatLink
+  | TraitChatLink
+  | RecipeChatLink
+  | SkinChatLink
+  | OutfitChatLink
+  | WvwObjectiveChatLink;
+
+/**
+ * Decoder and encoder for one chat link type
+ *
+ * `decode` reads the bytes after the type indicator; `encodedLength` and
+ * `encode` write them back. Codecs throw BuildCodeError for data they cannot
+ * read or write.
+ */
+export interface ChatLinkCodec<T extends { type: string } = ChatLink> {
+  /** The `type` of decoded links */
+  type: T['type'];
+  /** First byte of links of this type */
+  typeIndicator: number;
+  /** Read the payload; `view` is positioned after the type indicator */
+  decode(view: BinaryView): T;
+  /** Number of payload bytes `encode` writes */
+  encodedLength(link: T): number;
+  /** Write the payload (after the type indicator) */
+  encode(link: T, writer: BinaryWriter): void;
+}
+
+/**
+ * Options for decoding a chat link
+ */
+export interface ChatLinkDecodeOptions {
+  /** Reject malformed wrappers, illegal base64 and bytes after the payload (default: false) */
+  strict?: boolean;
+}
+
+/**
+ * Throw a BuildCodeError if fewer than `length` payload bytes remain
+ */
+export function assertChatLinkBytes(
+  view: BinaryView,
+  length: number,
+  type: string,
+): void {
+  if (view.remaining < length) {
+    throw new BuildCodeError(
+      `Invalid ${type} link length: expected ${length} more bytes at byte ${view.position}, found ${view.remaining}`,
+      BuildCodeErrorCode.INVALID_LENGTH,
+      undefined,
+      { offset: view.position },
+    );
+  }
+}
+
+/**
+ * Throw a BuildCodeError unless a link field is an integer that fits in `bits` bits
+ */
+export function assertChatLinkField(
+  value: unknown,
+  bits: number,
+  path: string,
+  min: number = 0,
+): void {
+  if (
+    typeof value !== 'number' ||
+    !Number.isInteger(value) ||
+    value < min ||
+    value >= 2 ** bits
+  ) {
+    throw new BuildCodeError(
+      `Invalid chat link field ${path}: ${value} (expected an integer from ${min} to ${2 ** bits - 1})`,
+      BuildCodeErrorCode.INVALID_CHAT_LINK_FIELD,
+      undefined,
+      { path },
+    );
+  }
+}
+
+/**
+ * Codec for links whose payload is a single uint32 ID
+ */
+function idCodec<K extends string>(
+  type: K,
+  typeIndicator: number,
+): ChatLinkCodec<{ type: K; id: number }> {
+  return {
+    type,
+    typeIndicator,
+    decode(view) {
+      assertChatLinkBytes(view, 4, type);
+      return { type, id: view.readUInt32LE() };
+    },
+    encodedLength: () => 4,
+    encode(link, writer) {
+      assertChatLinkField(link.id, 32, 'id');
+      writer.writeUInt32LE(link.id);
+    },
+  };
+}
+
+/** Optional item link fields, in byte order, with their flag bit */
+const ITEM_LINK_OPTIONAL_FIELDS = [
+  ['skin', ITEM_LINK_FLAGS.skin],
+  ['upgrade1', ITEM_LINK_FLAGS.upgrade1],
+  ['upgrade2', ITEM_LINK_FLAGS.upgrade2],
+] as const;
+
+/**
+ * Item links: quantity, then the item ID in the low 3 bytes of a uint32 whose
+ * high byte flags which of skin, upgrade 1 and upgrade 2 follow (uint32 each)
+ */
+const itemCodec: ChatLinkCodec<ItemLink> = {
+  type: 'item',
+  typeIndicator: CHAT_LINK_TYPE_INDICATORS.item,
+  decode(view) {
+    assertChatLinkBytes(view, 5, 'item');
+    const quantity = view.readByte();
+    const idAndFlags = view.readUInt32LE();
+    const flags = idAndFlags >>> 24;
+
+    const link: ItemLink = { type: 'item', id: idAndFlags & 0xffffff, quantity };
+    // Unknown flag bits (0x1F) carry no data and are ignored
+    for (const [field, flag] of ITEM_LINK_OPTIONAL_FIELDS) {
+      if (flags & flag) {
+        assertChatLinkBytes(view, 4, 'item');
+        link[field] = view.readUInt32LE();
+      }
+    }
+    return link;
+  },
+  encodedLength: (link) =>
+    5 +
+    4 *
+      ITEM_LINK_OPTIONAL_FIELDS.filter(([field]) => link[field] !== undefined)
+        .length,
+  encode(link, writer) {
+    assertChatLinkField(link.quantity, 8, 'quantity', 1);
+    assertChatLinkField(link.id, 24, 'id');
+
+    let flags = 0;
+    for (const [field, flag] of ITEM_LINK_OPTIONAL_FIELDS) {
+      if (link[field] !== undefined) {
+        assertChatLinkField(link[field], 32, field);
+        flags |= flag;
+      }
+    }
+
+    writer.writeByte(link.quantity);
+    writer.writeUInt32LE((link.id | (flags << 24)) >>> 0);
+    for (const [field] of ITEM_LINK_OPTIONAL_FIELDS) {
+      const value = link[field];
+      if (value !== undefined) {
+        writer.writeUInt32LE(value);
+      }
+    }
+  },
+};
+
+/**
+ * WvW objective links: objective ID, then map ID (uint32 each)
+ */
+const wvwObjectiveCodec: ChatLinkCodec<WvwObjectiveChatLink> = {
+  type: 'wvwObjective',
+  typeIndicator: CHAT_LINK_TYPE_INDICATORS.wvwObjective,
+  decode(view) {
+    assertChatLinkBytes(view, 8, 'wvwObjective');
+    const objectiveId = view.readUInt32LE();
+    const mapId = view.readUInt32LE();
+    return { type: 'wvwObjective', objectiveId, mapId };
+  },
+  encodedLength: () => 8,
+  encode(link, writer) {
+    assertChatLinkField(link.objectiveId, 32, 'objectiveId');
+    assertChatLinkField(link.mapId, 32, 'mapId');
+    writer.writeUInt32LE(link.objectiveId);
+    writer.writeUInt32LE(link.mapId);
+  },
+};
+
+/**
+ * Codecs of the default registry, one per ChatLink type
+ */
+export const DEFAULT_CHAT_LINK_CODECS: readonly ChatLinkCodec<ChatLink>[] = [
+  itemCodec,
+  idCodec('map', CHAT_LINK_TYPE_INDICATORS.map),
+  idCodec('skill', CHAT_LINK_TYPE_INDICATORS.skill),
+  idCodec('trait', CHAT_LINK_TYPE_INDICATORS.trait),
+  idCodec('recipe', CHAT_LINK_TYPE_INDICATORS.recipe),
+  idCodec('skin', CHAT_LINK_TYPE_INDICATORS.skin),
+  idCodec('outfit', CHAT_LINK_TYPE_INDICATORS.outfit),
+  wvwObjectiveCodec,
+];
+
+/**
+ * Immutable set of chat link codecs, dispatching on the type indicator byte
+ *
+ * `T` is the union of the registered link types. {@link register} returns a
+ * new registry, so extending {@link DEFAULT_CHAT_LINK_CODECS} leaves the one
+ * behind `decodeChatLink` untouched.
+ *
+ * @example
+ * ```typescript
+ * interface CoinChatLink { type: 'coin'; copper: number }
+ *
+ * const registry = new ChatLinkRegistry(DEFAULT_CHAT_LINK_CODECS).register<CoinChatLink>({
+ *   type: 'coin',
+ *   typeIndicator: 0x01,
+ *   decode: (view) => ({ type: 'coin', copper: view.readUInt32LE() }),
+ *   encodedLength: () => 4,
+ *   encode: (link, writer) => writer.writeUInt32LE(link.copper),
+ * });
+ *
+ * registry.decode('[&AdsnAAA=]'); // { type: 'coin', copper: 10203 }
+ * ```
+ */
+export class ChatLinkRegistry<T extends { type: string } = ChatLink> {
+  private readonly byIndicator = new Map<number, ChatLinkCodec<T>>();
+  private readonly byType = new Map<T['type'], ChatLinkCodec<T>>();
+
+  /**
+   * Create a registry
+   * @param codecs - Codecs to register, e.g. {@link DEFAULT_CHAT_LINK_CODECS}
+   * @throws {BuildCodeError} DUPLICATE_CHAT_LINK_TYPE if two codecs share a type or type indicator
+   */
+  constructor(codecs: readonly ChatLinkCodec<T>[]) {
+    for (const codec of codecs) {
+      if (this.byType.has(codec.type)) {
+        throw duplicateCodecError(
+          `Chat link type "${codec.type}" is already registered`,
+          'type',
+        );
+      }
+      if (this.byIndicator.has(codec.typeIndicator)) {
+        throw duplicateCodecError(
+          `Chat link type indicator 0x${codec.typeIndicator.toString(16)} is already registered`,
+          'typeIndicator',
+        );
+      }
+      this.byIndicator.set(codec.typeIndicator, codec);
+      this.byType.set(codec.type, codec);
+    }
+  }
+
+  /**
+   * Create a registry with a codec for another link type added
+   * @throws {BuildCodeError} DUPLICATE_CHAT_LINK_TYPE if its type or type indicator is already registered
+   */
+  register<U extends { type: string }>(
+    codec: ChatLinkCodec<U>,
+  ): ChatLinkRegistry<T | U> {
+    return new ChatLinkRegistry<T | U>([...this.byType.values(), codec]);
+  }
+
+  /**
+   * Get the codec registered for a link type
+   */
+  getCodec(type: T['type']): ChatLinkCodec<T> | undefined {
+    return this.byType.get(type);
+  }
+
+  /**
+   * Decode a chat link of any registered type
+   *
+   * @param chatLink - The chat link string (with or without [& and ] wrapping)
+   * @param options - Decode options (strict mode)
+   * @returns The decoded link, discriminated by `type`
+   * @throws {BuildCodeError} INVALID_TYPE for unregistered types, INVALID_LENGTH for truncated links
+   */
+  decode(chatLink: string, options: ChatLinkDecodeOptions = {}): T {
+    const bytes = decodeChatLinkBytes(chatLink, options.strict);
+    if (bytes.length === 0) {
+      throw new BuildCodeError(
+        'Invalid chat link length: 0',
+        BuildCodeErrorCode.INVALID_LENGTH,
+      );
+    }
+
+    const codec = this.byIndicator.get(bytes[0]);
+    if (!codec) {
+      throw new BuildCodeError(
+        bytes[0] === OFFICIAL_TYPE_INDICATOR
+          ? 'Build template links need a palette mapper: use decode()'
+          : `Unsupported chat link type: 0x${bytes[0].toString(16).padStart(2, '0')}`,
+        BuildCodeErrorCode.INVALID_TYPE,
+        undefined,
+        { offset: 0 },
+      );
+    }
+
+    const view = new BinaryView(bytes.buffer as ArrayBuffer, 1);
+    const link = codec.decode(view);
+
+    if (options.strict && view.remaining > 0) {
+      throw new BuildCodeError(
+        `Unexpected ${view.remaining} trailing bytes at byte ${view.position}`,
+        BuildCodeErrorCode.TRAILING_DATA,
+        undefined,
+        { offset: view.position },
+      );
+    }
+    return link;
+  }
+
+  /**
+   * Encode a chat link of any registered type
+   *
+   * @param link - Link object with the `type` of a registered codec
+   * @returns The chat link, wrapped in `[&...]`
+   * @throws {BuildCodeError} INVALID_TYPE for unregistered types, INVALID_CHAT_LINK_FIELD for values that do not fit
+   */
+  encode(link: T): string {
+    const codec = this.byType.get(link.type);
+    if (!codec) {
+      throw new BuildCodeError(
+        `Unsupported chat link type: ${link.type}`,
+        BuildCodeErrorCode.INVALID_TYPE,
+        undefined,
+        { path: 'type' },
+      );
+    }
+
+    const writer = new BinaryWriter(1 + codec.encodedLength(link));
+    writer.writeByte(codec.typeIndicator);
+    codec.encode(link, writer);
+    return `[&${encodeBase64(writer.buffer)}]`;
+  }
+}
+
+/**
+ * Build a BuildCodeError for a codec that clashes with a registered one
+ */
+function duplicateCodecError(message: string, path: string): BuildCodeError {
+  return new BuildCodeError(
+    message,
+    BuildCodeErrorCode.DUPLICATE_CHAT_LINK_TYPE,
+    undefined,
+    { path },
+  );
+}
+
+const defaultRegistry = new ChatLinkRegistry(DEFAULT_CHAT_LINK_CODECS);
+
+/**
+ * Decode an item, skin, skill, trait, recipe, outfit, map or WvW objective chat link
+ *
+ * Build template links need a PaletteMapper and are decoded with `decode`.
+ *
+ * @param chatLink - The chat link string (with or without [& and ] wrapping)
+ * @param options - Decode options (strict mode)
+ * @returns The decoded link, discriminated by `type`
+ * @throws {BuildCodeError} If the link is malformed or of an unsupported type
+ *
+ * @example
+ * ```typescript
+ * const link = decodeChatLink('[&BucCAAA=]');
+ * if (link.type === 'skill') {
+ *   console.log(link.id); // 743
+ * }
+ * ```
+ */
+export function decodeChatLink(
+  chatLink: string,
+  options: ChatLinkDecodeOptions = {},
+): ChatLink {
+  return defaultRegistry.decode(chatLink, options);
+}
+
+/**
+ * Encode an item, skin, skill, trait, recipe, outfit, map or WvW objective chat link
+ *
+ * @param link - The link to encode
+ * @returns The chat link, wrapped in `[&...]`
+ * @throws {BuildCodeError} If a field does not fit the link format
+ *
+ * @example
+ * ```typescript
+ * encodeChatLink({ type: 'skill', id: 743 }); // '[&BucCAAA=]'
+ * ```
+ */
+export function encodeChatLink(link: ChatLink): string {
+  return defaultRegistry.encode(link);
+}
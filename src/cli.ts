@@ -0,0 +1,571 @@
+/**
+ * gw2-build command-line tool
+ *
+ * Node-only: not exported from the package index, so the library stays free
+ * of Node dependencies. The executable entry point is `gw2-build.ts`.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { decodeSync, parseBuildCode } from './decoder.js';
+import { encodeSync } from './encoder.js';
+import { BuildCodeError, BuildCodeErrorCode } from './errors.js';
+import { inspect } from './inspector.js';
+import { SnapshotMetadataProvider } from './snapshot-metadata-provider.js';
+import type { MetadataSnapshots } from './snapshot-metadata-provider.js';
+import { TablePaletteMapper } from './table-palette-mapper.js';
+import type {
+  LegendSnapshot,
+  PaletteTableData,
+  ProfessionSnapshot,
+} from './table-palette-mapper.js';
+import type { BuildCode, DecodeOptions } from './types.js';
+import { BuildValidator } from './validator.js';
+
+/**
+ * Streams the CLI reads from and writes to
+ */
+export interface CliIO {
+  /** Read all of standard input */
+  readStdin(): Promise<string>;
+  /** Write to standard output */
+  stdout(text: string): void;
+  /** Write to standard error */
+  stderr(text: string): void;
+}
+
+/**
+ * Exit codes of the CLI that do not come from a BuildCodeError
+ */
+export enum ExitCode {
+  /** Command succeeded (valid build, identical builds) */
+  Success = 0,
+  /** Build failed validation, or the compared builds differ */
+  Failure = 1,
+  /** Unknown command, missing argument or option */
+  UsageError = 2,
+  /** A file or standard input could not be read, is not valid JSON or not a BuildCode */
+  InputError = 3,
+  /** Unexpected internal error (a bug, not a problem with the build) */
+  InternalError = 4,
+}
+
+/**
+ * Exit code per BuildCodeErrorCode
+ *
+ * Codes start at 10 and follow the enum order; new error codes get the next free number.
+ */
+export const ERROR_EXIT_CODES: Readonly<Record<BuildCodeErrorCode, number>> = {
+  [BuildCodeErrorCode.INVALID_LENGTH]: 10,
+  [BuildCodeErrorCode.INVALID_TYPE]: 11,
+  [BuildCodeErrorCode.INVALID_PROFESSION]: 12,
+  [BuildCodeErrorCode.PALETTE_LOOKUP_FAILED]: 13,
+  [BuildCodeErrorCode.BASE64_DECODE_FAILED]: 14,
+  [BuildCodeErrorCode.MALFORMED_CHAT_LINK]: 15,
+  [BuildCodeErrorCode.INVALID_BASE64_CHARACTER]: 16,
+  [BuildCodeErrorCode.INVALID_BASE64_PADDING]: 17,
+  [BuildCodeErrorCode.TRUNCATED_WEAPON_ARRAY]: 18,
+  [BuildCodeErrorCode.TRUNCATED_SKILL_VARIANT_ARRAY]: 19,
+  [BuildCodeErrorCode.TRAILING_DATA]: 20,
+  [BuildCodeErrorCode.TOO_MANY_SPECIALIZATIONS]: 21,
+  [BuildCodeErrorCode.INVALID_SPECIALIZATION_ID]: 22,
+  [BuildCodeErrorCode.INVALID_TRAIT_CHOICE]: 23,
+  [BuildCodeErrorCode.INVALID_SKILL_ID]: 24,
+  [BuildCodeErrorCode.PALETTE_INDEX_OUT_OF_RANGE]: 25,
+  [BuildCodeErrorCode.INVALID_PET_ID]: 26,
+  [BuildCodeErrorCode.INVALID_LEGEND_ID]: 27,
+  [BuildCodeErrorCode.TOO_MANY_WEAPONS]: 28,
+  [BuildCodeErrorCode.INVALID_WEAPON_ID]: 29,
+  [BuildCodeErrorCode.TOO_MANY_SKILL_VARIANTS]: 30,
+  [BuildCodeErrorCode.INVALID_SKILL_VARIANT_ID]: 31,
+  [BuildCodeErrorCode.INVALID_UNPARSED_DATA]: 32,
+  [BuildCodeErrorCode.INVALID_FIX]: 33,
+  [BuildCodeErrorCode.INVALID_CHAT_LINK_FIELD]: 34,
+  [BuildCodeErrorCode.TRUNCATED_ENGINEER_EXTENSION]: 35,
+  [BuildCodeErrorCode.DECODE_FAILED]: 36,
+  [BuildCodeErrorCode.DUPLICATE_CHAT_LINK_TYPE]: 37,
+};
+
+const USAGE = `Usage: gw2-build <command> [options]
+
+Commands:
+  decode [link]          Decode a chat link to BuildCode JSON
+  encode                 Encode BuildCode JSON from stdin to a chat link
+  inspect [link]         Print an annotated hex dump of a chat link
+  validate [link]        Validate a chat link (or BuildCode JSON from stdin)
+  diff <link> <link>     Compare two chat links
+
+Links are read from stdin when not given as an argument.
+
+Options:
+  --palette <file>       Palette table JSON (PaletteTableData or a /v2/professions snapshot)
+  --legends <file>       /v2/legends snapshot used with a professions snapshot palette
+  --snapshots <dir>      Directory of API snapshots (skills, specializations, pets,
+                         professions, legends); also the default palette source
+  --lossless             Keep unrecognised bytes when decoding
+  --strict               Reject malformed links
+  --json                 Print validation results as JSON
+  -h, --help             Show this help
+`;
+
+/**
+ * Parsed command-line options
+ */
+interface CliOptions {
+  palette?: string;
+  legends?: string;
+  snapshots?: string;
+  lossless?: boolean;
+  strict?: boolean;
+  json?: boolean;
+}
+
+type Command = (
+  args: string[],
+  options: CliOptions,
+  io: CliIO,
+) => Promise<number>;
+
+/**
+ * Error that ends the CLI with a non-BuildCodeError exit code
+ */
+class CliError extends Error {
+  constructor(
+    message: string,
+    readonly exitCode: ExitCode,
+  ) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+const COMMANDS: Record<string, Command> = {
+  decode: async (args, options, io) => {
+    const link = await readLink(args, io);
+    const build = decodeSync(
+      link,
+      await requirePaletteMapper('decode', options),
+      decodeOptions(options),
+    );
+    io.stdout(`${JSON.stringify(build, null, 2)}\n`);
+    return ExitCode.Success;
+  },
+
+  encode: async (_args, options, io) => {
+    const build = parseBuildCodeJson(await io.readStdin());
+    io.stdout(
+      `${encodeSync(build, await requirePaletteMapper('encode', options))}\n`,
+    );
+    return ExitCode.Success;
+  },
+
+  inspect: async (args, options, io) => {
+    const link = await readLink(args, io);
+    io.stdout(formatHexDump(link, options.strict));
+    return ExitCode.Success;
+  },
+
+  validate: async (args, options, io) => {
+    if (!options.snapshots) {
+      throw new CliError(
+        'validate needs metadata: pass --snapshots <dir>',
+        ExitCode.UsageError,
+      );
+    }
+
+    const input = await readLink(args, io);
+    const build = input.startsWith('{')
+      ? parseBuildCodeJson(input)
+      : decodeSync(
+          input,
+          await requirePaletteMapper('validate', options),
+          decodeOptions(options),
+        );
+
+    const metadata = new SnapshotMetadataProvider(
+      await loadSnapshots(options.snapshots),
+    );
+    const result = await new BuildValidator(metadata).validate(build);
+
+    if (options.json) {
+      io.stdout(`${JSON.stringify(result, null, 2)}\n`);
+    } else {
+      for (const issue of [...result.errors, ...result.warnings]) {
+        io.stdout(
+          `${issue.severity} ${issue.path || '/'}: ${issue.message} [${issue.ruleId}]\n`,
+        );
+      }
+      io.stdout(
+        result.valid
+          ? `Build is valid (${result.warnings.length} warnings)\n`
+          : `Build is invalid (${result.errors.length} errors, ${result.warnings.length} warnings)\n`,
+      );
+    }
+    return result.valid ? ExitCode.Success : ExitCode.Failure;
+  },
+
+  diff: async (args, options, io) => {
+    if (args.length !== 2) {
+      throw new CliError('diff needs two chat links', ExitCode.UsageError);
+    }
+
+    // Without a palette table, builds are compared by palette index
+    const mapper = await loadPaletteMapper(options);
+    const [before, after] = args.map((link) =>
+      mapper
+        ? decodeSync(link, mapper, decodeOptions(options))
+        : parseBuildCode(link, decodeOptions(options)),
+    );
+
+    const changes = diffValues(before, after);
+    for (const change of changes) {
+      io.stdout(`${change}\n`);
+    }
+    return changes.length === 0 ? ExitCode.Success : ExitCode.Failure;
+  },
+};
+
+/**
+ * Run the CLI
+ *
+ * @param argv - Arguments after the executable name
+ * @param io - Standard streams
+ * @returns Process exit code: {@link ExitCode}, or {@link ERROR_EXIT_CODES} for build code errors
+ *
+ * @example
+ * ```typescript
+ * process.exitCode = await run(process.argv.slice(2), nodeIO);
+ * ```
+ */
+export async function run(argv: string[], io: CliIO): Promise<number> {
+  try {
+    let parsed;
+    try {
+      parsed = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+          palette: { type: 'string' },
+          legends: { type: 'string' },
+          snapshots: { type: 'string' },
+          lossless: { type: 'boolean' },
+          strict: { type: 'boolean' },
+          json: { type: 'boolean' },
+          help: { type: 'boolean', short: 'h' },
+        },
+      });
+    } catch (error) {
+      throw new CliError(
+        error instanceof Error ? error.message : String(error),
+        ExitCode.UsageError,
+      );
+    }
+
+    const [name, ...args] = parsed.positionals;
+    if (parsed.values.help) {
+      io.stdout(USAGE);
+      return ExitCode.Success;
+    }
+
+    const command = name !== undefined ? COMMANDS[name] : undefined;
+    if (!command) {
+      throw new CliError(
+        name === undefined ? 'Missing command' : `Unknown command: ${name}`,
+        ExitCode.UsageError,
+      );
+    }
+
+    return await command(args, parsed.values, io);
+  } catch (error) {
+    if (error instanceof BuildCodeError) {
+      io.stderr(`gw2-build: ${error.message} (${error.code})\n`);
+      return ERROR_EXIT_CODES[error.code];
+    }
+    if (error instanceof CliError) {
+      io.stderr(`gw2-build: ${error.message}\n`);
+      if (error.exitCode === ExitCode.UsageError) {
+        io.stderr(`\n${USAGE}`);
+      }
+      return error.exitCode;
+    }
+    io.stderr(
+      `gw2-build: unexpected error: ${error instanceof Error ? error.message : String(error)}\n`,
+    );
+    return ExitCode.InternalError;
+  }
+}
+
+function decodeOptions(options: CliOptions): DecodeOptions {
+  return { lossless: options.lossless, strict: options.strict };
+}
+
+/**
+ * Take the chat link from the arguments, or from stdin when none is given
+ */
+async function readLink(args: string[], io: CliIO): Promise<string> {
+  if (args.length > 1) {
+    throw new CliError('Expected a single chat link', ExitCode.UsageError);
+  }
+  const link = (args[0] ?? (await io.readStdin())).trim();
+  if (link === '') {
+    throw new CliError('Missing chat link', ExitCode.UsageError);
+  }
+  return link;
+}
+
+function parseJson(text: string, source: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new CliError(
+      `${source} is not valid JSON: ${error instanceof Error ? error.message : error}`,
+      ExitCode.InputError,
+    );
+  }
+}
+
+/**
+ * Parse BuildCode JSON from stdin, checking the fields commands read without guarding
+ *
+ * Value ranges are left to `encode` and the validator; this only rejects input
+ * that would make them crash.
+ */
+function parseBuildCodeJson(text: string): BuildCode {
+  const value = parseJson(text, 'stdin');
+
+  if (!isObject(value)) {
+    throw invalidBuildCode('expected an object');
+  }
+  if (typeof value.profession !== 'number') {
+    throw invalidBuildCode('profession must be a number');
+  }
+  if (!Array.isArray(value.specializations)) {
+    throw invalidBuildCode('specializations must be an array');
+  }
+  value.specializations.forEach((spec: unknown, i) => {
+    if (
+      !isObject(spec) ||
+      typeof spec.id !== 'number' ||
+      !isNumberArray(spec.traits) ||
+      spec.traits.length !== 3
+    ) {
+      throw invalidBuildCode(
+        `specializations[${i}] must have a numeric id and three traits`,
+      );
+    }
+  });
+
+  const skills = value.skills;
+  if (!isObject(skills)) {
+    throw invalidBuildCode('skills must be an object');
+  }
+  for (const key of ['heal', 'utility1', 'utility2', 'utility3', 'elite']) {
+    if (!(key in skills)) {
+      throw invalidBuildCode(`skills.${key} is missing`);
+    }
+  }
+  for (const [key, skillId] of Object.entries(skills)) {
+    if (typeof skillId !== 'number') {
+      throw invalidBuildCode(`skills.${key} must be a number`);
+    }
+  }
+
+  const specific = value.professionSpecific;
+  if (specific !== undefined) {
+    // The arrays every ranger/revenant check iterates over
+    const required = isObject(specific)
+      ? { ranger: 'pets', revenant: 'legends' }[String(specific.type)]
+      : undefined;
+    if (!isObject(specific) || !required || !Array.isArray(specific[required])) {
+      throw invalidBuildCode(
+        'professionSpecific must be ranger data with pets or revenant data with legends',
+      );
+    }
+  }
+
+  for (const key of ['weapons', 'skillVariants']) {
+    if (value[key] !== undefined && !isNumberArray(value[key])) {
+      throw invalidBuildCode(`${key} must be an array of numbers`);
+    }
+  }
+  return value as unknown as BuildCode;
+}
+
+function invalidBuildCode(problem: string): CliError {
+  return new CliError(`stdin is not a BuildCode: ${problem}`, ExitCode.InputError);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumberArray(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) && value.every((entry) => typeof entry === 'number')
+  );
+}
+
+/**
+ * Read and parse a JSON file
+ * @param optional - Return undefined instead of failing when the file does not exist
+ */
+async function readJson(
+  file: string,
+  optional: boolean = false,
+): Promise<unknown> {
+  let text: string;
+  try {
+    text = await readFile(file, 'utf8');
+  } catch (error) {
+    if (optional && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw new CliError(
+      `Cannot read ${file}: ${error instanceof Error ? error.message : error}`,
+      ExitCode.InputError,
+    );
+  }
+  return parseJson(text, file);
+}
+
+/**
+ * Create a palette mapper from `--palette`/`--legends`, falling back to `--snapshots`
+ *
+ * The palette file is either a PaletteTableData object or a `/v2/professions`
+ * snapshot array.
+ */
+async function loadPaletteMapper(
+  options: CliOptions,
+): Promise<TablePaletteMapper | undefined> {
+  const { snapshots } = options;
+  const file =
+    options.palette ??
+    (snapshots !== undefined ? join(snapshots, 'professions.json') : undefined);
+  if (file === undefined) {
+    return undefined;
+  }
+
+  const data = await readJson(file);
+  if (!Array.isArray(data)) {
+    return new TablePaletteMapper(data as PaletteTableData);
+  }
+
+  let legends: unknown = [];
+  if (options.legends !== undefined) {
+    legends = await readJson(options.legends);
+  } else if (snapshots !== undefined) {
+    legends = (await readJson(join(snapshots, 'legends.json'), true)) ?? [];
+  }
+  return TablePaletteMapper.fromSnapshot(
+    data as ProfessionSnapshot[],
+    legends as LegendSnapshot[],
+  );
+}
+
+async function requirePaletteMapper(
+  command: string,
+  options: CliOptions,
+): Promise<TablePaletteMapper> {
+  const mapper = await loadPaletteMapper(options);
+  if (!mapper) {
+    throw new CliError(
+      `${command} needs a palette table: pass --palette <file> or --snapshots <dir>`,
+      ExitCode.UsageError,
+    );
+  }
+  return mapper;
+}
+
+/**
+ * Load the snapshot files of a directory; pets, professions and legends are optional
+ */
+async function loadSnapshots(dir: string): Promise<MetadataSnapshots> {
+  const optional = async <T>(name: string): Promise<T | undefined> =>
+    (await readJson(join(dir, `${name}.json`), true)) as T | undefined;
+
+  return {
+    skills: (await readJson(
+      join(dir, 'skills.json'),
+    )) as MetadataSnapshots['skills'],
+    specializations: (await readJson(
+      join(dir, 'specializations.json'),
+    )) as MetadataSnapshots['specializations'],
+    pets: await optional<MetadataSnapshots['pets']>('pets'),
+    professions: await optional<MetadataSnapshots['professions']>('professions'),
+    legends: await optional<MetadataSnapshots['legends']>('legends'),
+  };
+}
+
+/**
+ * Format a chat link as a hex dump with one line per field
+ */
+function formatHexDump(link: string, strict: boolean = false): string {
+  const lines = ['Offset   Bytes                                            Field'];
+  for (const range of inspect(link, { strict }).ranges) {
+    const label = range.unexplained
+      ? `${range.description} [unexplained]`
+      : range.description;
+    // Long ranges wrap at 16 bytes; the label goes on the first line
+    for (let i = 0; i < range.length; i += 16) {
+      const start = range.start + i;
+      const end = range.start + Math.min(i + 16, range.length);
+      const offsets = end - start > 1 ? `${start}-${end - 1}` : `${start}`;
+      const hex = range.bytes
+        .slice(i, i + 16)
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join(' ');
+      lines.push(
+        `${offsets.padEnd(8)} ${hex.padEnd(48)} ${i === 0 ? label : ''}`.trimEnd(),
+      );
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * List the differences between two JSON values, one line per changed leaf
+ *
+ * Lines are `~ <path>: <before> → <after>`, `- <path>: <before>` or
+ * `+ <path>: <after>`, with JSON pointer paths.
+ */
+function diffValues(before: unknown, after: unknown): string[] {
+  const beforeLeaves = flatten(before);
+  const afterLeaves = flatten(after);
+  const changes: string[] = [];
+
+  for (const [path, value] of beforeLeaves) {
+    if (!afterLeaves.has(path)) {
+      changes.push(`- ${path}: ${value}`);
+    } else if (afterLeaves.get(path) !== value) {
+      changes.push(`~ ${path}: ${value} → ${afterLeaves.get(path)}`);
+    }
+  }
+  for (const [path, value] of afterLeaves) {
+    if (!beforeLeaves.has(path)) {
+      changes.push(`+ ${path}: ${value}`);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Map every leaf of a JSON value to its JSON pointer, with JSON-encoded values
+ */
+function flatten(
+  value: unknown,
+  path: string = '',
+  leaves: Map<string, string> = new Map(),
+): Map<string, string> {
+  if (typeof value === 'object' && value !== null) {
+    for (const [key, child] of Object.entries(value)) {
+      if (child !== undefined) {
+        const segment = key.replace(/~/g, '~0').replace(/\//g, '~1');
+        flatten(child, `${path}/${segment}`, leaves);
+      }
+    }
+  } else {
+    leaves.set(path, JSON.stringify(value));
+  }
+  return leaves;
+}
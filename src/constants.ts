@@ -5,12 +5,33 @@
 /** Official build code type indicator (first byte) */
 export const OFFICIAL_TYPE_INDICATOR = 0x0d;
 
+/**
+ * Type indicator (first byte) of each chat link type
+ */
+export const CHAT_LINK_TYPE_INDICATORS = {
+  item: 0x02,
+  map: 0x04,
+  skill: 0x06,
+  trait: 0x07,
+  recipe: 0x09,
+  skin: 0x0a,
+  outfit: 0x0b,
+  wvwObjective: 0x0c,
+  build: OFFICIAL_TYPE_INDICATOR,
+} as const;
+
+/**
+ * Item link flag bits (high byte of the item ID field) marking which optional IDs follow
+ */
+export const ITEM_LINK_FLAGS = {
+  skin: 0x80,
+  upgrade1: 0x40,
+  upgrade2: 0x20,
+} as const;
+
 /** Total byte length of official build codes */
 export const OFFICIAL_CODE_LENGTH = 44;
 
-/** Offset applied for aquatic (underwater) builds */
-export const AQUATIC_OFFSET = 2;
-
 /** Number of specialization slots */
 export const SPECIALIZATION_COUNT = 3;
 
@@ -23,6 +44,9 @@ export const BYTES_PER_SKILL = 2;
 /** Number of terrestrial skill slots (heal + 3 utilities + elite) */
 export const TERRESTRIAL_SKILL_COUNT = 5;
 
+/** Byte offset of the profession-specific block (pets, legends) */
+export const PROFESSION_DATA_OFFSET = 28;
+
 /** Mechanist elite specialization ID */
 export const MECHANIST_SPEC_ID = 70;
 
@@ -53,3 +77,39 @@ export const LEGEND_NAMES: Record<number, string> = {
   6: 'Legendary Renegade Stance (Kalla)',
   7: 'Legendary Alliance Stance (Vindicator)',
 };
+
+/**
+ * Legends that can only be equipped with a specific elite specialization
+ * (legend ID → specialization ID)
+ */
+export const LEGEND_REQUIRED_SPECIALIZATIONS: Record<number, number> = {
+  6: 63, // Kalla → Renegade
+  7: 69, // Alliance → Vindicator
+};
+
+/**
+ * Weapon type names by build code weapon ID
+ *
+ * Names match the weapon keys of `/v2/professions`.
+ */
+export const WEAPON_TYPE_NAMES: Record<number, string> = {
+  5: 'Axe',
+  35: 'Longbow',
+  47: 'Dagger',
+  49: 'Focus',
+  50: 'Greatsword',
+  51: 'Hammer',
+  53: 'Mace',
+  54: 'Pistol',
+  85: 'Rifle',
+  86: 'Scepter',
+  87: 'Shield',
+  89: 'Staff',
+  90: 'Sword',
+  102: 'Torch',
+  103: 'Warhorn',
+  107: 'Shortbow',
+  265: 'Spear',
+  266: 'Speargun',
+  267: 'Trident',
+};
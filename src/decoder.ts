@@ -2,24 +2,31 @@
  * Decoder for GW2 official build template chat links
  */
 
+import { decodeBase64, decodeBase64Strict } from './base64.js';
 import { BinaryView } from './binary-view.js';
 import {
   OFFICIAL_CODE_LENGTH,
   OFFICIAL_TYPE_INDICATOR,
-  AQUATIC_OFFSET,
   SKILL_COUNT,
   BYTES_PER_SKILL,
+  PROFESSION_DATA_OFFSET,
 } from './constants.js';
 import { BuildCodeError, BuildCodeErrorCode } from './errors.js';
+import { resolveBatch } from './palette-lookup.js';
 import type {
   BuildCode,
   DecodeOptions,
+  PaletteLookup,
   PaletteMapper,
   Profession,
   Specialization,
   Skills,
   TraitChoice,
   ProfessionSpecificData,
+  RangerData,
+  RevenantData,
+  SyncPaletteMapper,
+  UnparsedData,
 } from './types.js';
 
 /**
@@ -27,7 +34,7 @@ import type {
  *
  * @param chatLink - The chat link string (with or without [& and ] wrapping)
  * @param paletteMapper - Implementation for converting palette indices to skill IDs
- * @param options - Decode options (aquatic flag)
+ * @param options - Decode options (lossless and strict modes)
  * @returns Promise resolving to the decoded BuildCode
  * @throws {BuildCodeError} If the chat link is invalid or malformed
  *
@@ -39,29 +46,169 @@ import type {
  */
 export async function decode(
   chatLink: string,
-  paletteMapper: PaletteMapper,
+  paletteMapper: PaletteMapper | SyncPaletteMapper,
   options: DecodeOptions = {},
 ): Promise<BuildCode> {
+  const parsed = parseBuildCode(chatLink, options);
+  const lookups = collectPaletteLookups(parsed);
+
+  const batch =
+    'paletteToSkillBatch' in paletteMapper
+      ? paletteMapper.paletteToSkillBatch?.bind(paletteMapper)
+      : undefined;
+
+  const skillIds = new Map<string, number>();
+  if (batch) {
+    // Resolve the whole build in a single call
+    const resolved = await resolveBatch(
+      lookups.map(({ profession, paletteIndex, legend }) => ({
+        profession,
+        paletteIndex,
+        legend,
+      })),
+      batch,
+    );
+    lookups.forEach((lookup, i) => skillIds.set(lookup.key, resolved[i]));
+  } else {
+    for (const lookup of lookups) {
+      try {
+        skillIds.set(
+          lookup.key,
+          await paletteMapper.paletteToSkill(
+            lookup.profession,
+            lookup.paletteIndex,
+            lookup.legend,
+          ),
+        );
+      } catch (error) {
+        throw paletteLookupError(lookup, error);
+      }
+    }
+  }
+
+  return assembleBuildCode(parsed, skillIds, options.lossless);
+}
+
+/**
+ * Synchronously decode a GW2 official build template chat link
+ *
+ * Same parsing as {@link decode}, for mappers backed by an in-memory table.
+ *
+ * @param chatLink - The chat link string (with or without [& and ] wrapping)
+ * @param paletteMapper - Synchronous palette mapper
+ * @param options - Decode options (lossless and strict modes)
+ * @returns The decoded BuildCode
+ * @throws {BuildCodeError} If the chat link is invalid or malformed
+ *
+ * @example
+ * ```typescript
+ * const build = decodeSync('[&DQg1KTI...]', tableMapper);
+ * ```
+ */
+export function decodeSync(
+  chatLink: string,
+  paletteMapper: SyncPaletteMapper,
+  options: DecodeOptions = {},
+): BuildCode {
+  const parsed = parseBuildCode(chatLink, options);
+
+  const skillIds = new Map<string, number>();
+  for (const lookup of collectPaletteLookups(parsed)) {
+    try {
+      skillIds.set(
+        lookup.key,
+        paletteMapper.paletteToSkill(
+          lookup.profession,
+          lookup.paletteIndex,
+          lookup.legend,
+        ),
+      );
+    } catch (error) {
+      throw paletteLookupError(lookup, error);
+    }
+  }
+
+  return assembleBuildCode(parsed, skillIds, options.lossless);
+}
+
+/**
+ * Build code read from bytes, before palette indices are resolved to skill IDs
+ */
+export interface ParsedBuildCode {
+  profession: Profession;
+  specializations: Specialization[];
+  /** Palette index per skill slot (0 = empty) */
+  skillPalette: Skills;
+  /** Ranger pets (no palette lookup needed) */
+  rangerData?: RangerData;
+  /** Raw Revenant legend bytes and inactive utility palette indices */
+  revenant?: ParsedRevenantData;
+  weapons?: number[];
+  skillVariants?: number[];
+  unparsed?: UnparsedData;
+}
+
+/**
+ * Revenant bytes 28-43 before palette resolution
+ */
+interface ParsedRevenantData {
+  /** Terrestrial active/inactive and aquatic active/inactive legend bytes */
+  legends: [number, number, number, number];
+  /** Inactive terrestrial legend utility palette indices (bytes 32-37) */
+  inactivePalette: [number, number, number];
+  /** Inactive aquatic legend utility palette indices (bytes 38-43) */
+  aquaticInactivePalette: [number, number, number];
+}
+
+/**
+ * A palette index that has to be resolved to finish decoding
+ */
+interface PaletteSlotLookup extends PaletteLookup {
+  /** Slot the resolved skill ID belongs to */
+  key: string;
+}
+
+/**
+ * Unwrap a chat link and decode its base64 payload, without interpreting the bytes
+ *
+ * @param chatLink - The chat link string (with or without [& and ] wrapping)
+ * @param strict - Reject malformed wrappers, illegal characters and wrong padding
+ * @throws {BuildCodeError} If the wrapper or base64 is invalid
+ */
+export function decodeChatLinkBytes(
+  chatLink: string,
+  strict: boolean = false,
+): Uint8Array {
   // Strip [& prefix and ] suffix if present
-  const base64 = chatLink.startsWith('[&')
-    ? chatLink.slice(2, -1)
-    : chatLink;
+  const { base64, base64Offset } = unwrapChatLink(chatLink, strict);
 
-  // Decode base64 to binary buffer
-  let buffer: ArrayBuffer;
   try {
-    const nodeBuffer = Buffer.from(base64, 'base64');
-    buffer = nodeBuffer.buffer.slice(
-      nodeBuffer.byteOffset,
-      nodeBuffer.byteOffset + nodeBuffer.byteLength,
-    );
+    return strict
+      ? decodeBase64Strict(base64, base64Offset)
+      : decodeBase64(base64);
   } catch (error) {
+    if (error instanceof BuildCodeError) {
+      throw error;
+    }
     throw new BuildCodeError(
       `Failed to decode base64: ${error}`,
       BuildCodeErrorCode.BASE64_DECODE_FAILED,
       error,
     );
   }
+}
+
+/**
+ * Parse a chat link into palette-level data without resolving skills
+ *
+ * @throws {BuildCodeError} If the chat link is invalid or malformed
+ */
+export function parseBuildCode(
+  chatLink: string,
+  options: DecodeOptions = {},
+): ParsedBuildCode {
+  const buffer = decodeChatLinkBytes(chatLink, options.strict)
+    .buffer as ArrayBuffer;
 
   // Validate buffer length (min 44 bytes for base format, can be longer with weapons/variants)
   if (buffer.byteLength < OFFICIAL_CODE_LENGTH) {
@@ -107,37 +254,45 @@ export async function decode(
     }
   }
 
-  // Calculate offsets for aquatic builds
-  const offset = options.aquatic ? AQUATIC_OFFSET : 0;
-
   // Create a view for profession-specific data (starts at byte 28)
   const profSpecView = view.slice(SKILL_COUNT * BYTES_PER_SKILL);
 
-  // Apply offset for skills section
-  view.skip(offset);
+  // Read the 10 skill palette indices (both bars; `options.aquatic` is ignored)
+  const skillPalette = readSkillPalette(view);
 
-  // Handle profession-specific logic
-  let skills: Skills;
-  let professionSpecific: ProfessionSpecificData | undefined;
+  // Read profession-specific data
+  let rangerData: RangerData | undefined;
+  let revenant: ParsedRevenantData | undefined;
 
   if (profession === 9) {
-    // Revenant requires special handling
-    const result = await decodeRevenant(
-      view,
-      profSpecView,
-      paletteMapper,
-      offset,
-    );
-    skills = result.skills;
-    professionSpecific = result.professionSpecific;
-  } else {
-    // Standard skill decoding for all other professions
-    skills = await decodeSkills(view, profession, paletteMapper);
+    // Revenant: legends and inactive legend utilities
+    revenant = readRevenantData(profSpecView);
+  } else if (profession === 4) {
+    // Ranger: 2 terrestrial + 2 aquatic pet IDs
+    rangerData = decodeRangerData(profSpecView);
+  }
+
+  // Lossless mode: keep bytes the model above does not cover
+  const unparsed: UnparsedData = {};
+  if (options.lossless) {
+    // Specializations are compacted, so empty slots before a filled one (or stray
+    // trait bits) would be lost; keep the raw block when it cannot be rebuilt
+    const specializationBlock = readRawBytes(buffer, 2, 8);
+    const rebuiltBlock = specializations.flatMap((spec) => [
+      spec.id,
+      spec.traits[0] | (spec.traits[1] << 2) | (spec.traits[2] << 4),
+    ]);
+    if (specializationBlock.some((byte, i) => byte !== (rebuiltBlock[i] ?? 0))) {
+      unparsed.specializationBlock = specializationBlock;
+    }
 
-    // Read profession-specific data
-    if (profession === 4) {
-      // Ranger: 2 pet IDs
-      professionSpecific = decodeRangerData(profSpecView, offset);
+    const professionBlock = readRawBytes(
+      buffer,
+      PROFESSION_DATA_OFFSET,
+      OFFICIAL_CODE_LENGTH,
+    );
+    if (hasUnmodelledProfessionBytes(profession, professionBlock)) {
+      unparsed.professionBlock = professionBlock;
     }
   }
 
@@ -155,12 +310,27 @@ export async function decode(
     if (profession === 3) {
       // Consume extended data bytes to prevent crashes
       // Note: Morph skills are NOT encoded in build templates
-      decodeEngineerData(extendedView);
+      decodeEngineerData(extendedView, buffer);
       // professionSpecific remains undefined for Engineer
+
+      if (options.lossless) {
+        unparsed.engineerExtension = readRawBytes(
+          buffer,
+          OFFICIAL_CODE_LENGTH,
+          buffer.byteLength,
+        );
+      }
     } else {
       // Standard extended data format for other professions
       // Read weapon array
       const weaponCount = extendedView.readByte();
+      assertAvailable(
+        buffer,
+        extendedView.position,
+        weaponCount * 2,
+        `Weapon array announces ${weaponCount} weapons`,
+        BuildCodeErrorCode.TRUNCATED_WEAPON_ARRAY,
+      );
       if (weaponCount > 0) {
         weapons = [];
         for (let i = 0; i < weaponCount; i++) {
@@ -168,227 +338,439 @@ export async function decode(
         }
       }
 
-      // Read skill variant array
-      const variantCount = extendedView.readByte();
+      // Read skill variant array (a missing count byte means no variants, except in strict mode)
+      let variantCount = 0;
+      if (extendedView.position < buffer.byteLength) {
+        variantCount = extendedView.readByte();
+      } else if (options.strict) {
+        throw new BuildCodeError(
+          `Skill variant count byte missing at byte ${extendedView.position}`,
+          BuildCodeErrorCode.TRUNCATED_SKILL_VARIANT_ARRAY,
+          undefined,
+          { offset: extendedView.position },
+        );
+      } else if (options.lossless) {
+        unparsed.missingVariantCount = true;
+      }
+      assertAvailable(
+        buffer,
+        extendedView.position,
+        variantCount * 4,
+        `Skill variant array announces ${variantCount} variants`,
+        BuildCodeErrorCode.TRUNCATED_SKILL_VARIANT_ARRAY,
+      );
       if (variantCount > 0) {
         skillVariants = [];
         for (let i = 0; i < variantCount; i++) {
           skillVariants.push(extendedView.readUInt32LE());
         }
       }
+
+      if (options.lossless) {
+        if (weaponCount === 0 && variantCount === 0) {
+          unparsed.emptyExtension = true;
+        }
+        if (extendedView.position < buffer.byteLength) {
+          unparsed.trailing = readRawBytes(
+            buffer,
+            extendedView.position,
+            buffer.byteLength,
+          );
+        }
+      }
+    }
+
+    // Strict mode: nothing may follow the last recognised structure
+    if (options.strict && extendedView.position < buffer.byteLength) {
+      throw new BuildCodeError(
+        `Unexpected ${buffer.byteLength - extendedView.position} trailing bytes at byte ${extendedView.position}`,
+        BuildCodeErrorCode.TRAILING_DATA,
+        undefined,
+        { offset: extendedView.position },
+      );
     }
   }
 
   return {
     profession,
     specializations,
-    skills,
-    professionSpecific,
+    skillPalette,
+    rangerData,
+    revenant,
     weapons,
     skillVariants,
+    unparsed: Object.keys(unparsed).length > 0 ? unparsed : undefined,
   };
 }
 
 /**
- * Decode skills using standard palette mapping
+ * List the palette lookups needed to turn a parsed build into skill IDs
  *
- * GW2 build codes store 10 skill slots (5 terrestrial + 5 aquatic) in bytes 8-27.
- * Each slot is 2 bytes (uint16 little-endian palette index).
- * Order: heal, aquaticHeal, util1, aquaticUtil1, util2, aquaticUtil2, util3, aquaticUtil3, elite, aquaticElite
- * (Each terrestrial skill is paired with its aquatic counterpart)
+ * Empty slots (palette index 0) need no lookup. Revenant slots resolve against
+ * the legend that owns them.
  */
-async function decodeSkills(
-  view: BinaryView,
-  profession: Profession,
-  paletteMapper: PaletteMapper,
-): Promise<Skills> {
-  const skills: Skills = {
-    // Terrestrial
-    heal: 0,
-    utility1: 0,
-    utility2: 0,
-    utility3: 0,
-    elite: 0,
-    // Aquatic
-    aquaticHeal: 0,
-    aquaticUtility1: 0,
-    aquaticUtility2: 0,
-    aquaticUtility3: 0,
-    aquaticElite: 0,
+function collectPaletteLookups(parsed: ParsedBuildCode): PaletteSlotLookup[] {
+  const lookups: PaletteSlotLookup[] = [];
+  const add = (key: string, paletteIndex: number, legend?: number) => {
+    if (paletteIndex !== 0) {
+      lookups.push({
+        key,
+        profession: parsed.profession,
+        paletteIndex,
+        legend: legend || undefined,
+      });
+    }
   };
 
-  const skillKeys: (keyof Skills)[] = [
-    'heal',
-    'aquaticHeal',
-    'utility1',
-    'aquaticUtility1',
-    'utility2',
-    'aquaticUtility2',
-    'utility3',
-    'aquaticUtility3',
-    'elite',
-    'aquaticElite',
-  ];
-
-  for (const key of skillKeys) {
-    const paletteIndex = view.readUInt16LE(); // 2 bytes per skill slot
+  const revenant = parsed.revenant;
+  const [legend1, legend2, aquaticLegend1, aquaticLegend2] =
+    revenant?.legends ?? [0, 0, 0, 0];
+
+  for (const key of SKILL_KEYS) {
+    // For Revenant, palette mapping is legend-specific: terrestrial slots
+    // resolve against the terrestrial active legend, aquatic slots against
+    // the aquatic active legend (falling back to the terrestrial one)
+    const legend = key.startsWith('aquatic')
+      ? aquaticLegend1 || legend1
+      : legend1;
+    add(key, parsed.skillPalette[key], legend);
+  }
 
-    if (paletteIndex !== 0) {
-      try {
-        skills[key] = await paletteMapper.paletteToSkill(profession, paletteIndex);
-      } catch (error) {
-        throw new BuildCodeError(
-          `Failed to map palette index ${paletteIndex} for profession ${profession}`,
-          BuildCodeErrorCode.PALETTE_LOOKUP_FAILED,
-          error,
-        );
-      }
+  if (revenant) {
+    // Inactive skills are decoded with the second legend of their pair
+    if (legend2 !== 0) {
+      revenant.inactivePalette.forEach((paletteIndex, i) =>
+        add(`inactive${i}`, paletteIndex, legend2),
+      );
+    }
+    if (aquaticLegend2 !== 0) {
+      revenant.aquaticInactivePalette.forEach((paletteIndex, i) =>
+        add(`aquaticInactive${i}`, paletteIndex, aquaticLegend2),
+      );
     }
   }
 
-  return skills;
+  return lookups;
 }
 
 /**
- * Decode Revenant build with legend-based palette mapping
+ * Combine a parsed build with resolved skill IDs into a BuildCode
  */
-async function decodeRevenant(
-  view: BinaryView,
-  profSpecView: BinaryView,
-  paletteMapper: PaletteMapper,
-  offset: number,
-): Promise<{ skills: Skills; professionSpecific: ProfessionSpecificData }> {
-  profSpecView.skip(offset);
-
-  const legend1Byte = profSpecView.peekByte(0);
-  const legend2Byte = profSpecView.peekByte(1);
-
-  let skills: Skills;
-  let legend1: number;
-  let legend2: number | undefined;
-  let inactiveSkills: [number, number, number] | undefined;
+function assembleBuildCode(
+  parsed: ParsedBuildCode,
+  skillIds: Map<string, number>,
+  lossless: boolean = false,
+): BuildCode {
+  const skillId = (key: string) => skillIds.get(key) ?? 0;
+
+  const skills = {} as Skills;
+  for (const key of SKILL_KEYS) {
+    skills[key] = skillId(key);
+  }
+
+  let professionSpecific: ProfessionSpecificData | undefined =
+    parsed.rangerData;
+
+  if (parsed.revenant) {
+    const [legend1, legend2, aquaticLegend1, aquaticLegend2] =
+      parsed.revenant.legends;
+
+    const terrestrial = resolveLegendPair(
+      skills,
+      ['utility1', 'utility2', 'utility3'],
+      legend1,
+      legend2,
+      [skillId('inactive0'), skillId('inactive1'), skillId('inactive2')],
+      lossless,
+    );
 
-  if (legend1Byte !== 0) {
-    // First legend is set - decode skills with legend-based palette
-    legend1 = legend1Byte;
-
-    skills = {
-      // Terrestrial
-      heal: 0,
-      utility1: 0,
-      utility2: 0,
-      utility3: 0,
-      elite: 0,
-      // Aquatic
-      aquaticHeal: 0,
-      aquaticUtility1: 0,
-      aquaticUtility2: 0,
-      aquaticUtility3: 0,
-      aquaticElite: 0,
+    const revenantData: RevenantData = {
+      type: 'revenant',
+      legends: terrestrial.legends,
+      inactiveSkills: terrestrial.inactiveSkills,
     };
 
-    const skillKeys: (keyof Skills)[] = [
-      'heal',
-      'aquaticHeal',
-      'utility1',
-      'aquaticUtility1',
-      'utility2',
-      'aquaticUtility2',
-      'utility3',
-      'aquaticUtility3',
-      'elite',
-      'aquaticElite',
-    ];
-
-    for (const key of skillKeys) {
-      const paletteIndex = view.readUInt16LE(); // 2 bytes per skill slot
-
-      if (paletteIndex !== 0) {
-        try {
-          // For Revenant, palette mapping is legend-specific
-          // Pass the active legend (legend1) for proper skill resolution
-          skills[key] = await paletteMapper.paletteToSkill(
-            9,
-            paletteIndex,
-            legend1,
-          );
-        } catch (error) {
-          throw new BuildCodeError(
-            `Failed to map Revenant palette index ${paletteIndex}`,
-            BuildCodeErrorCode.PALETTE_LOOKUP_FAILED,
-            error,
-          );
-        }
-      }
+    if (aquaticLegend1 !== 0 || aquaticLegend2 !== 0) {
+      const aquatic = resolveLegendPair(
+        skills,
+        ['aquaticUtility1', 'aquaticUtility2', 'aquaticUtility3'],
+        aquaticLegend1,
+        aquaticLegend2,
+        [
+          skillId('aquaticInactive0'),
+          skillId('aquaticInactive1'),
+          skillId('aquaticInactive2'),
+        ],
+        lossless,
+      );
+      revenantData.aquaticLegends = aquatic.legends;
+      revenantData.aquaticInactiveSkills = aquatic.inactiveSkills;
     }
-  } else {
-    // No legend set - use standard palette mapping
-    skills = await decodeSkills(view, 9, paletteMapper);
-    legend1 = 0;
+
+    professionSpecific = revenantData;
+  }
+
+  return {
+    profession: parsed.profession,
+    specializations: parsed.specializations,
+    skills,
+    professionSpecific,
+    weapons: parsed.weapons,
+    skillVariants: parsed.skillVariants,
+    unparsed: parsed.unparsed,
+  };
+}
+
+/**
+ * Wrap a palette mapper failure in a BuildCodeError
+ */
+function paletteLookupError(
+  lookup: PaletteSlotLookup,
+  error: unknown,
+): BuildCodeError {
+  return new BuildCodeError(
+    lookup.profession === 9
+      ? `Failed to map Revenant palette index ${lookup.paletteIndex}`
+      : `Failed to map palette index ${lookup.paletteIndex} for profession ${lookup.profession}`,
+    BuildCodeErrorCode.PALETTE_LOOKUP_FAILED,
+    error,
+  );
+}
+
+/**
+ * Strip the `[&...]` chat link wrapper
+ *
+ * In lenient mode a missing closing `]` is tolerated; strict mode rejects any
+ * wrapper that is not exactly `[&` + payload + `]`.
+ *
+ * @returns The base64 payload and its character offset within the chat link
+ */
+function unwrapChatLink(
+  chatLink: string,
+  strict: boolean = false,
+): { base64: string; base64Offset: number } {
+  const hasPrefix = chatLink.startsWith('[&');
+  const hasSuffix = chatLink.endsWith(']');
+
+  if (strict) {
+    if (hasPrefix && !hasSuffix) {
+      throw new BuildCodeError(
+        'Malformed chat link: missing closing "]"',
+        BuildCodeErrorCode.MALFORMED_CHAT_LINK,
+        undefined,
+        { offset: chatLink.length },
+      );
+    }
+    if (!hasPrefix && (hasSuffix || chatLink.startsWith('['))) {
+      throw new BuildCodeError(
+        'Malformed chat link: expected "[&" prefix',
+        BuildCodeErrorCode.MALFORMED_CHAT_LINK,
+        undefined,
+        { offset: 0 },
+      );
+    }
+  }
+
+  if (!hasPrefix) {
+    return { base64: chatLink, base64Offset: 0 };
+  }
+
+  return {
+    base64: chatLink.slice(2, hasSuffix ? -1 : undefined),
+    base64Offset: 2,
+  };
+}
+
+/**
+ * Throw a BuildCodeError if fewer than `length` bytes remain after `position`
+ */
+function assertAvailable(
+  buffer: ArrayBuffer,
+  position: number,
+  length: number,
+  description: string,
+  code: BuildCodeErrorCode,
+): void {
+  if (position + length > buffer.byteLength) {
+    throw new BuildCodeError(
+      `${description} (${length} bytes) but only ${buffer.byteLength - position} bytes remain at byte ${position}`,
+      code,
+      undefined,
+      { offset: position },
+    );
+  }
+}
+
+/**
+ * Check whether the profession-specific block (bytes 28-43) holds bytes that
+ * the decoded pets or legends do not represent, so lossless mode must keep it raw
+ */
+function hasUnmodelledProfessionBytes(
+  profession: number,
+  block: number[],
+): boolean {
+  const isSet = (start: number, end: number) =>
+    block.slice(start, end).some((byte) => byte !== 0);
+
+  if (profession === 4) {
+    // Ranger: only the terrestrial and aquatic pets (bytes 28-31) are modelled
+    return isSet(4, 16);
   }
+  if (profession === 9) {
+    // Revenant: inactive utility skills are only resolved when their pair has a second legend
+    return (block[1] === 0 && isSet(4, 10)) || (block[3] === 0 && isSet(10, 16));
+  }
+  return isSet(0, 16);
+}
+
+/**
+ * Copy a byte range out of a buffer as a plain (JSON-serialisable) array
+ */
+function readRawBytes(
+  buffer: ArrayBuffer,
+  start: number,
+  end: number,
+): number[] {
+  return Array.from(new Uint8Array(buffer, start, end - start));
+}
+
+/**
+ * Skill slot order in the build code
+ *
+ * GW2 build codes store 10 skill slots (5 terrestrial + 5 aquatic) in bytes 8-27.
+ * Each slot is 2 bytes (uint16 little-endian palette index).
+ * (Each terrestrial skill is paired with its aquatic counterpart)
+ */
+const SKILL_KEYS: (keyof Skills)[] = [
+  'heal',
+  'aquaticHeal',
+  'utility1',
+  'aquaticUtility1',
+  'utility2',
+  'aquaticUtility2',
+  'utility3',
+  'aquaticUtility3',
+  'elite',
+  'aquaticElite',
+];
+
+/**
+ * Read the 10 skill slot palette indices
+ */
+function readSkillPalette(view: BinaryView): Skills {
+  const skillPalette = {} as Skills;
+  for (const key of SKILL_KEYS) {
+    skillPalette[key] = view.readUInt16LE(); // 2 bytes per skill slot
+  }
+  return skillPalette;
+}
+
+/**
+ * Read Revenant legends and inactive skill palette indices
+ *
+ * Revenant profession-specific layout (bytes 28-43):
+ * - 28-29: terrestrial active and inactive legend
+ * - 30-31: aquatic active and inactive legend
+ * - 32-37: inactive terrestrial legend utility skills (3x uint16 palette index)
+ * - 38-43: inactive aquatic legend utility skills (3x uint16 palette index)
+ */
+function readRevenantData(profSpecView: BinaryView): ParsedRevenantData {
+  const legends: [number, number, number, number] = [
+    profSpecView.readByte(),
+    profSpecView.readByte(),
+    profSpecView.readByte(),
+    profSpecView.readByte(),
+  ];
+  const inactivePalette: [number, number, number] = [
+    profSpecView.readUInt16LE(),
+    profSpecView.readUInt16LE(),
+    profSpecView.readUInt16LE(),
+  ];
+  const aquaticInactivePalette: [number, number, number] = [
+    profSpecView.readUInt16LE(),
+    profSpecView.readUInt16LE(),
+    profSpecView.readUInt16LE(),
+  ];
+
+  return { legends, inactivePalette, aquaticInactivePalette };
+}
+
+/**
+ * Resolve one Revenant legend pair (terrestrial or aquatic) and its inactive utility skills
+ *
+ * If only the second legend is set, the legends are flipped so the set legend
+ * becomes the active one, and the utility skills are swapped accordingly.
+ * Lossless decoding keeps the byte order instead (an empty active legend stays 0),
+ * since the flip cannot be undone when encoding.
+ */
+function resolveLegendPair(
+  skills: Skills,
+  utilityKeys: [keyof Skills, keyof Skills, keyof Skills],
+  legend1Byte: number,
+  legend2Byte: number,
+  altSkills: [number, number, number],
+  keepOrder: boolean,
+): {
+  legends: [number, number?];
+  inactiveSkills?: [number, number, number];
+} {
+  let legend1 = legend1Byte;
+  let legend2: number | undefined;
+  let inactiveSkills: [number, number, number] | undefined;
 
   // Check for second legend
   if (legend2Byte !== 0) {
     legend2 = legend2Byte;
 
-    // Read inactive utility skills for second legend
-    // Need to skip: offset + 2 legend bytes + gap (2 or 6 bytes)
-    const revSkillOffset = offset ? 6 : 2;
-    const altSkillView = profSpecView.slice(offset + 2 + revSkillOffset);
-
-    // Decode inactive skills with the second legend
-    const altSkills: [number, number, number] = [
-      await paletteMapper.paletteToSkill(9, altSkillView.readUInt16LE(), legend2),
-      await paletteMapper.paletteToSkill(9, altSkillView.readUInt16LE(), legend2),
-      await paletteMapper.paletteToSkill(9, altSkillView.readUInt16LE(), legend2),
-    ];
-
     // Check if we need to flip legends (if legend1 was empty but legend2 is set)
-    if (legend1Byte === 0) {
+    if (legend1Byte === 0 && !keepOrder) {
       // Flip: make legend2 the active legend
       legend1 = legend2;
       legend2 = undefined;
-      inactiveSkills = [skills.utility1, skills.utility2, skills.utility3];
+      inactiveSkills = [
+        skills[utilityKeys[0]],
+        skills[utilityKeys[1]],
+        skills[utilityKeys[2]],
+      ];
       // Update active skills with alt skills
-      if (altSkills[0] !== 0) skills.utility1 = altSkills[0];
-      if (altSkills[1] !== 0) skills.utility2 = altSkills[1];
-      if (altSkills[2] !== 0) skills.utility3 = altSkills[2];
+      utilityKeys.forEach((key, i) => {
+        if (altSkills[i] !== 0) skills[key] = altSkills[i];
+      });
     } else {
-      // Normal case: both legends set
+      // Normal case: both legends set (or kept in byte order)
       if (altSkills[0] !== 0 || altSkills[1] !== 0 || altSkills[2] !== 0) {
         inactiveSkills = altSkills;
       }
     }
   }
 
-  const professionSpecific: ProfessionSpecificData = {
-    type: 'revenant',
+  return {
     legends: legend2 !== undefined ? [legend1, legend2] : [legend1],
     inactiveSkills,
   };
-
-  return { skills, professionSpecific };
 }
 
 /**
  * Decode Ranger-specific data (pets)
+ *
+ * Bytes 28-29 hold the terrestrial pets, bytes 30-31 the aquatic pets.
  */
-function decodeRangerData(
-  view: BinaryView,
-  offset: number,
-): ProfessionSpecificData | undefined {
-  view.skip(offset);
-
+function decodeRangerData(view: BinaryView): RangerData | undefined {
   const pet1 = view.peekByte(0);
   const pet2 = view.peekByte(1);
+  const aquaticPet1 = view.peekByte(2);
+  const aquaticPet2 = view.peekByte(3);
 
-  if (pet1 === 0 && pet2 === 0) {
+  const hasAquaticPets = aquaticPet1 !== 0 || aquaticPet2 !== 0;
+
+  if (pet1 === 0 && pet2 === 0 && !hasAquaticPets) {
     return undefined;
   }
 
   return {
     type: 'ranger',
     pets: [pet1, pet2],
+    aquaticPets: hasAquaticPets ? [aquaticPet1, aquaticPet2] : undefined,
   };
 }
 
@@ -404,10 +786,20 @@ function decodeRangerData(
  * - Format A (0x03): 8 bytes total (indicator + 6 data bytes + padding)
  * - Format B (0x01): 4 bytes total (indicator + 2 data bytes + padding)
  */
-function decodeEngineerData(view: BinaryView): undefined {
+function decodeEngineerData(view: BinaryView, buffer: ArrayBuffer): undefined {
   const startPos = view.position;
   const formatIndicator = view.readByte();
 
+  // Bytes following the indicator for each known format
+  const dataLength = formatIndicator === 3 ? 7 : formatIndicator === 1 ? 3 : 0;
+  assertAvailable(
+    buffer,
+    view.position,
+    dataLength,
+    `Engineer extension format ${formatIndicator} expects data`,
+    BuildCodeErrorCode.TRUNCATED_ENGINEER_EXTENSION,
+  );
+
   if (formatIndicator === 3) {
     // Format A: Consume 8 bytes total
     view.readUInt16LE(); // data 1
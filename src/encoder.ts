@@ -2,16 +2,24 @@
  * Encoder for GW2 official build template chat links
  */
 
+import { encodeBase64 } from './base64.js';
+import { BinaryWriter } from './binary-writer.js';
 import {
   OFFICIAL_CODE_LENGTH,
   OFFICIAL_TYPE_INDICATOR,
+  PROFESSION_DATA_OFFSET,
 } from './constants.js';
 import { BuildCodeError, BuildCodeErrorCode } from './errors.js';
+import { resolveBatch } from './palette-lookup.js';
 import type {
   BuildCode,
   EncodeOptions,
   PaletteMapper,
   Skills,
+  SkillLookup,
+  Specialization,
+  SyncPaletteMapper,
+  UnparsedData,
 } from './types.js';
 
 /**
@@ -31,14 +39,241 @@ import type {
  */
 export async function encode(
   buildCode: BuildCode,
-  paletteMapper: PaletteMapper,
+  paletteMapper: PaletteMapper | SyncPaletteMapper,
   options: EncodeOptions = {},
 ): Promise<string> {
+  // Reject values that would not fit the binary format before writing anything
+  assertEncodable(buildCode);
+  const lookups = collectSkillLookups(buildCode);
+
+  const batch =
+    'skillToPaletteBatch' in paletteMapper
+      ? paletteMapper.skillToPaletteBatch?.bind(paletteMapper)
+      : undefined;
+
+  const paletteIndices = new Map<string, number>();
+  if (batch) {
+    // Resolve the whole build in a single call
+    const resolved = await resolveBatch(
+      lookups.map(({ profession, skillId, legend }) => ({
+        profession,
+        skillId,
+        legend,
+      })),
+      batch,
+    );
+    lookups.forEach((lookup, i) => paletteIndices.set(lookup.path, resolved[i]));
+  } else {
+    for (const lookup of lookups) {
+      try {
+        paletteIndices.set(
+          lookup.path,
+          await paletteMapper.skillToPalette(
+            lookup.profession,
+            lookup.skillId,
+            lookup.legend,
+          ),
+        );
+      } catch (error) {
+        throw skillLookupError(lookup, error);
+      }
+    }
+  }
+
+  return writeBuildCode(buildCode, paletteIndices, options);
+}
+
+/**
+ * Synchronously encode a BuildCode object into a GW2 official build template chat link
+ *
+ * Same output as {@link encode}, for mappers backed by an in-memory table.
+ *
+ * @param buildCode - The build configuration to encode
+ * @param paletteMapper - Synchronous palette mapper
+ * @param options - Encode options (aquatic flag, chat link wrapping)
+ * @returns The encoded chat link string
+ * @throws {BuildCodeError} If encoding fails
+ *
+ * @example
+ * ```typescript
+ * const chatLink = encodeSync(build, tableMapper);
+ * ```
+ */
+export function encodeSync(
+  buildCode: BuildCode,
+  paletteMapper: SyncPaletteMapper,
+  options: EncodeOptions = {},
+): string {
+  // Reject values that would not fit the binary format before writing anything
+  assertEncodable(buildCode);
+
+  const paletteIndices = new Map<string, number>();
+  for (const lookup of collectSkillLookups(buildCode)) {
+    try {
+      paletteIndices.set(
+        lookup.path,
+        paletteMapper.skillToPalette(
+          lookup.profession,
+          lookup.skillId,
+          lookup.legend,
+        ),
+      );
+    } catch (error) {
+      throw skillLookupError(lookup, error);
+    }
+  }
+
+  return writeBuildCode(buildCode, paletteIndices, options);
+}
+
+/**
+ * Skill slot order in the build code
+ *
+ * GW2 pairs each terrestrial skill with its aquatic counterpart.
+ * Each skill is 2 bytes (uint16 palette index).
+ */
+const SKILL_KEYS: (keyof Skills)[] = [
+  'heal',
+  'aquaticHeal',
+  'utility1',
+  'aquaticUtility1',
+  'utility2',
+  'aquaticUtility2',
+  'utility3',
+  'aquaticUtility3',
+  'elite',
+  'aquaticElite',
+];
+
+/**
+ * A skill ID that has to be mapped to a palette index before writing
+ */
+interface SkillSlotLookup extends SkillLookup {
+  /** Path of the field holding the skill, also used as the lookup key */
+  path: string;
+  /** Whether the skill belongs to an inactive Revenant legend */
+  inactive: boolean;
+}
+
+/**
+ * List the skill → palette lookups needed to encode a build
+ *
+ * Empty slots (skill ID 0) need no lookup. Revenant skills are mapped against
+ * the legend that owns them.
+ */
+function collectSkillLookups(buildCode: BuildCode): SkillSlotLookup[] {
+  const lookups: SkillSlotLookup[] = [];
+
+  // For Revenant, get active legends for palette mapping
+  // (aquatic slots fall back to the terrestrial legend when no aquatic legend is set)
+  const revenantData =
+    buildCode.profession === 9 &&
+    buildCode.professionSpecific?.type === 'revenant'
+      ? buildCode.professionSpecific
+      : undefined;
+  const activeLegend = revenantData?.legends[0] || undefined;
+  const aquaticActiveLegend = revenantData?.aquaticLegends?.[0] || activeLegend;
+
+  for (const key of SKILL_KEYS) {
+    const skillId = (buildCode.skills[key] ?? 0) as number; // Support old BuildCode without aquatic fields
+    if (skillId !== 0) {
+      lookups.push({
+        path: `skills.${key}`,
+        profession: buildCode.profession,
+        skillId,
+        legend: key.startsWith('aquatic') ? aquaticActiveLegend : activeLegend,
+        inactive: false,
+      });
+    }
+  }
+
+  if (revenantData) {
+    // Inactive terrestrial utility skills use the second terrestrial legend,
+    // inactive aquatic utility skills the second aquatic legend
+    const inactiveSets: [
+      string,
+      [number, number, number] | undefined,
+      number | undefined,
+    ][] = [
+      [
+        'professionSpecific.inactiveSkills',
+        revenantData.inactiveSkills,
+        revenantData.legends[1],
+      ],
+      [
+        'professionSpecific.aquaticInactiveSkills',
+        revenantData.aquaticInactiveSkills,
+        revenantData.aquaticLegends?.[1],
+      ],
+    ];
+
+    for (const [path, skills, legend] of inactiveSets) {
+      skills?.forEach((skillId, i) => {
+        if (skillId !== 0) {
+          lookups.push({
+            path: `${path}[${i}]`,
+            profession: buildCode.profession,
+            skillId,
+            legend,
+            inactive: true,
+          });
+        }
+      });
+    }
+  }
+
+  return lookups;
+}
+
+/**
+ * Wrap a palette mapper failure in a BuildCodeError
+ */
+function skillLookupError(
+  lookup: SkillSlotLookup,
+  error: unknown,
+): BuildCodeError {
+  return new BuildCodeError(
+    lookup.inactive
+      ? `Failed to map Revenant inactive skill ID ${lookup.skillId} to palette index`
+      : `Failed to map skill ID ${lookup.skillId} to palette index for profession ${lookup.profession}`,
+    BuildCodeErrorCode.PALETTE_LOOKUP_FAILED,
+    error,
+  );
+}
+
+/**
+ * Write a validated BuildCode and its resolved palette indices as a chat link
+ */
+function writeBuildCode(
+  buildCode: BuildCode,
+  paletteIndices: Map<string, number>,
+  options: EncodeOptions,
+): string {
+  const unparsed = buildCode.unparsed;
+
+  // Engineer extended block preserved by lossless decoding replaces weapons/variants
+  const engineerExtension =
+    buildCode.profession === 3 ? unparsed?.engineerExtension : undefined;
+
   // Calculate total buffer size (base 44 bytes + extended data)
   let totalSize = OFFICIAL_CODE_LENGTH;
   const hasExtendedData =
-    (buildCode.weapons && buildCode.weapons.length > 0) ||
-    (buildCode.skillVariants && buildCode.skillVariants.length > 0);
+    !engineerExtension &&
+    ((buildCode.weapons && buildCode.weapons.length > 0) ||
+      (buildCode.skillVariants && buildCode.skillVariants.length > 0) ||
+      unparsed?.emptyExtension === true ||
+      (unparsed?.trailing !== undefined && unparsed.trailing.length > 0));
+
+  // Lossless decoding of a link cut off before the skill variant count
+  const writesVariantCount = !(
+    unparsed?.missingVariantCount === true &&
+    !buildCode.skillVariants?.length &&
+    !unparsed.trailing?.length
+  );
+
+  if (engineerExtension) {
+    totalSize += engineerExtension.length;
+  }
 
   if (hasExtendedData) {
     // Weapon count byte + weapons
@@ -48,38 +283,70 @@ export async function encode(
     }
 
     // Skill variant count byte + variants
-    totalSize += 1; // skill variant count byte
+    if (writesVariantCount) {
+      totalSize += 1; // skill variant count byte
+    }
     if (buildCode.skillVariants && buildCode.skillVariants.length > 0) {
       totalSize += buildCode.skillVariants.length * 4;
     }
+
+    // Unrecognised bytes after the skill variant array
+    totalSize += unparsed?.trailing?.length ?? 0;
   }
 
-  const buffer = Buffer.alloc(totalSize);
-  let pos = 0;
+  const writer = new BinaryWriter(totalSize);
 
-  // Helper to write a single byte
-  const writeByte = (value: number) => {
-    buffer[pos++] = value;
+  // Helper to write the resolved palette index of a skill field (0 when empty)
+  const writePaletteIndex = (skillId: number, path: string) => {
+    const paletteIndex = skillId !== 0 ? (paletteIndices.get(path) ?? 0) : 0;
+    assertPaletteIndex(paletteIndex, skillId, path);
+    writer.writeUInt16LE(paletteIndex);
+  };
+
+  // Helper to write three inactive Revenant utility skills (6 bytes, zeros when absent
+  // unless a raw profession block from lossless decoding already holds them)
+  const writeInactiveSkills = (
+    inactiveSkills: [number, number, number] | undefined,
+    path: string,
+  ) => {
+    if (!inactiveSkills && unparsed?.professionBlock) {
+      writer.position += 6;
+      return;
+    }
+    for (let i = 0; i < 3; i++) {
+      writePaletteIndex(inactiveSkills?.[i] ?? 0, `${path}[${i}]`);
+    }
   };
 
   // 1. Write type indicator
-  writeByte(OFFICIAL_TYPE_INDICATOR);
+  writer.writeByte(OFFICIAL_TYPE_INDICATOR);
 
   // 2. Write profession
-  writeByte(buildCode.profession);
+  writer.writeByte(buildCode.profession);
 
   // 3. Write specializations (pad to 3)
-  for (let i = 0; i < 3; i++) {
-    const spec = buildCode.specializations[i];
-    if (spec) {
-      writeByte(spec.id);
-      // Pack trait choices into a single byte
-      const traitMix =
-        spec.traits[0] | (spec.traits[1] << 2) | (spec.traits[2] << 4);
-      writeByte(traitMix);
-    } else {
-      writeByte(0);
-      writeByte(0);
+  // A raw block from lossless decoding wins as long as the specializations are unchanged
+  if (
+    unparsed?.specializationBlock &&
+    specializationBlockMatches(
+      unparsed.specializationBlock,
+      buildCode.specializations,
+    )
+  ) {
+    writer.writeBytes(unparsed.specializationBlock);
+  } else {
+    for (let i = 0; i < 3; i++) {
+      const spec = buildCode.specializations[i];
+      if (spec) {
+        writer.writeByte(spec.id);
+        // Pack trait choices into a single byte
+        const traitMix =
+          spec.traits[0] | (spec.traits[1] << 2) | (spec.traits[2] << 4);
+        writer.writeByte(traitMix);
+      } else {
+        writer.writeByte(0);
+        writer.writeByte(0);
+      }
     }
   }
 
@@ -87,136 +354,360 @@ export async function encode(
   // GW2 pairs each terrestrial skill with its aquatic counterpart
   // Format: heal, aquaticHeal, util1, aquaticUtil1, util2, aquaticUtil2, util3, aquaticUtil3, elite, aquaticElite
   // Each skill is 2 bytes (uint16 palette index)
-  const skillKeys: (keyof Skills)[] = [
-    'heal',
-    'aquaticHeal',
-    'utility1',
-    'aquaticUtility1',
-    'utility2',
-    'aquaticUtility2',
-    'utility3',
-    'aquaticUtility3',
-    'elite',
-    'aquaticElite',
-  ];
-
-  // For Revenant, get active legend for palette mapping
-  const activeLegend =
-    buildCode.profession === 9 &&
-    buildCode.professionSpecific?.type === 'revenant'
-      ? buildCode.professionSpecific.legends[0]
-      : undefined;
-
-  for (const key of skillKeys) {
+  for (const key of SKILL_KEYS) {
     const skillId = (buildCode.skills[key] ?? 0) as number; // Support old BuildCode without aquatic fields
-    let paletteIndex = 0;
-
-    if (skillId !== 0) {
-      try {
-        paletteIndex = await paletteMapper.skillToPalette(
-          buildCode.profession,
-          skillId,
-          activeLegend,
-        );
-      } catch (error) {
-        throw new BuildCodeError(
-          `Failed to map skill ID ${skillId} to palette index for profession ${buildCode.profession}`,
-          BuildCodeErrorCode.PALETTE_LOOKUP_FAILED,
-          error,
-        );
-      }
-    }
-
-    buffer.writeUInt16LE(paletteIndex, pos);
-    pos += 2;
+    writePaletteIndex(skillId, `skills.${key}`);
   }
 
   // Note: options.aquatic is now deprecated - all 10 slots are always written
 
   // 5. Write profession-specific data (starting at byte 28)
   // Position should now be at byte 28 after writing all 10 skill slots
+
+  // Restore unmodelled profession-specific bytes first; modelled fields are written over them
+  if (unparsed?.professionBlock) {
+    writer.writeBytes(
+      unparsed.professionBlock.slice(
+        0,
+        OFFICIAL_CODE_LENGTH - PROFESSION_DATA_OFFSET,
+      ),
+    );
+    writer.position = PROFESSION_DATA_OFFSET;
+  }
   if (buildCode.professionSpecific) {
     const profSpec = buildCode.professionSpecific;
 
     if (profSpec.type === 'ranger') {
-      // Ranger: 2 pet IDs at bytes 28-29
-      writeByte(profSpec.pets[0]);
-      writeByte(profSpec.pets[1]);
+      // Ranger: 2 terrestrial pet IDs at bytes 28-29, 2 aquatic pet IDs at bytes 30-31
+      writer.writeByte(profSpec.pets[0]);
+      writer.writeByte(profSpec.pets[1]);
+      writer.writeByte(profSpec.aquaticPets?.[0] ?? 0);
+      writer.writeByte(profSpec.aquaticPets?.[1] ?? 0);
     } else if (profSpec.type === 'revenant') {
-      // Revenant: 2 legend IDs at bytes 28-29, then inactive skills at bytes 32-37
-      writeByte(profSpec.legends[0]);
-      writeByte(profSpec.legends[1] ?? 0);
-
-      // Skip 2 bytes gap (bytes 30-31)
-      pos += 2;
-
-      // Write inactive utility skills if present (bytes 32-37)
-      if (profSpec.inactiveSkills) {
-        // Inactive skills use the second legend
-        const inactiveLegend = profSpec.legends[1];
-
-        for (let i = 0; i < 3; i++) {
-          const skillId = profSpec.inactiveSkills[i];
-          let paletteIndex = 0;
-
-          if (skillId !== 0) {
-            try {
-              paletteIndex = await paletteMapper.skillToPalette(
-                9,
-                skillId,
-                inactiveLegend,
-              );
-            } catch (error) {
-              throw new BuildCodeError(
-                `Failed to map Revenant inactive skill ID ${skillId} to palette index`,
-                BuildCodeErrorCode.PALETTE_LOOKUP_FAILED,
-                error,
-              );
-            }
-          }
-
-          buffer.writeUInt16LE(paletteIndex, pos);
-          pos += 2;
-        }
-      }
+      // Revenant: terrestrial legends at bytes 28-29, aquatic legends at bytes 30-31
+      writer.writeByte(profSpec.legends[0]);
+      writer.writeByte(profSpec.legends[1] ?? 0);
+      writer.writeByte(profSpec.aquaticLegends?.[0] ?? 0);
+      writer.writeByte(profSpec.aquaticLegends?.[1] ?? 0);
+
+      // Inactive terrestrial utility skills (bytes 32-37)
+      writeInactiveSkills(
+        profSpec.inactiveSkills,
+        'professionSpecific.inactiveSkills',
+      );
+
+      // Inactive aquatic utility skills (bytes 38-43)
+      writeInactiveSkills(
+        profSpec.aquaticInactiveSkills,
+        'professionSpecific.aquaticInactiveSkills',
+      );
     }
     // Engineer toolbelt skills are NOT part of official 44-byte format
   }
 
   // 6. Write extended data (weapons and skill variants) if present
   // Position should be at byte 44 after base format
-  pos = OFFICIAL_CODE_LENGTH;
+  writer.position = OFFICIAL_CODE_LENGTH;
+
+  if (engineerExtension) {
+    writer.writeBytes(engineerExtension);
+  }
 
   if (hasExtendedData) {
     // Write weapon count (always write the count byte if we have extended data)
     const weaponCount = buildCode.weapons?.length ?? 0;
-    buffer[pos++] = weaponCount;
+    writer.writeByte(weaponCount);
 
     // Write weapon IDs if any
     if (buildCode.weapons && buildCode.weapons.length > 0) {
       for (const weaponId of buildCode.weapons) {
-        buffer.writeUInt16LE(weaponId, pos);
-        pos += 2;
+        writer.writeUInt16LE(weaponId);
       }
     }
 
-    // Write skill variant count (always write the count byte if we have extended data)
-    const variantCount = buildCode.skillVariants?.length ?? 0;
-    buffer[pos++] = variantCount;
+    // Write skill variant count (unless the decoded link had none)
+    if (writesVariantCount) {
+      writer.writeByte(buildCode.skillVariants?.length ?? 0);
+    }
 
     // Write skill variant IDs if any
     if (buildCode.skillVariants && buildCode.skillVariants.length > 0) {
       for (const skillId of buildCode.skillVariants) {
-        buffer.writeUInt32LE(skillId, pos);
-        pos += 4;
+        writer.writeUInt32LE(skillId);
       }
     }
+
+    if (unparsed?.trailing) {
+      writer.writeBytes(unparsed.trailing);
+    }
   }
 
-  // 7. Base64 encode (only the bytes we actually used)
-  const actualBuffer = buffer.slice(0, totalSize);
-  const base64 = actualBuffer.toString('base64');
+  // 7. Base64 encode
+  const base64 = encodeBase64(writer.buffer);
 
   // 8. Wrap in chat link format if requested (default: true)
   return options.wrapInChatLink !== false ? `[&${base64}]` : base64;
 }
+
+/**
+ * Check whether a raw specialization block still decodes to the given specializations
+ */
+function specializationBlockMatches(
+  block: number[],
+  specializations: Specialization[],
+): boolean {
+  const blockSpecs: Specialization[] = [];
+  for (let i = 0; i + 1 < block.length; i += 2) {
+    if (block[i] !== 0) {
+      blockSpecs.push({
+        id: block[i],
+        traits: [
+          block[i + 1] & 0b11,
+          (block[i + 1] >> 2) & 0b11,
+          (block[i + 1] >> 4) & 0b11,
+        ],
+      });
+    }
+  }
+
+  return (
+    blockSpecs.length === specializations.length &&
+    blockSpecs.every(
+      (spec, i) =>
+        spec.id === specializations[i].id &&
+        spec.traits.every((trait, t) => trait === specializations[i].traits[t]),
+    )
+  );
+}
+
+/**
+ * Check every BuildCode field against the limits of the binary format
+ *
+ * @throws {BuildCodeError} With a field-specific code and the path of the offending field
+ */
+function assertEncodable(buildCode: BuildCode): void {
+  assertInteger(
+    buildCode.profession,
+    1,
+    9,
+    'profession',
+    BuildCodeErrorCode.INVALID_PROFESSION,
+  );
+
+  if (buildCode.specializations.length > 3) {
+    throw new BuildCodeError(
+      `Too many specializations: ${buildCode.specializations.length} (maximum 3)`,
+      BuildCodeErrorCode.TOO_MANY_SPECIALIZATIONS,
+      undefined,
+      { path: 'specializations' },
+    );
+  }
+
+  buildCode.specializations.forEach((spec, i) => {
+    assertInteger(
+      spec.id,
+      1,
+      0xff,
+      `specializations[${i}].id`,
+      BuildCodeErrorCode.INVALID_SPECIALIZATION_ID,
+    );
+    spec.traits.forEach((trait, t) => {
+      assertInteger(
+        trait,
+        0,
+        3,
+        `specializations[${i}].traits[${t}]`,
+        BuildCodeErrorCode.INVALID_TRAIT_CHOICE,
+      );
+    });
+  });
+
+  for (const [key, skillId] of Object.entries(buildCode.skills)) {
+    assertInteger(
+      skillId ?? 0,
+      0,
+      Number.MAX_SAFE_INTEGER,
+      `skills.${key}`,
+      BuildCodeErrorCode.INVALID_SKILL_ID,
+    );
+  }
+
+  const profSpec = buildCode.professionSpecific;
+  if (profSpec?.type === 'ranger') {
+    assertByteArray(
+      profSpec.pets,
+      'professionSpecific.pets',
+      BuildCodeErrorCode.INVALID_PET_ID,
+    );
+    if (profSpec.aquaticPets) {
+      assertByteArray(
+        profSpec.aquaticPets,
+        'professionSpecific.aquaticPets',
+        BuildCodeErrorCode.INVALID_PET_ID,
+      );
+    }
+  } else if (profSpec?.type === 'revenant') {
+    assertByteArray(
+      profSpec.legends.map((legend) => legend ?? 0),
+      'professionSpecific.legends',
+      BuildCodeErrorCode.INVALID_LEGEND_ID,
+    );
+    if (profSpec.aquaticLegends) {
+      assertByteArray(
+        profSpec.aquaticLegends.map((legend) => legend ?? 0),
+        'professionSpecific.aquaticLegends',
+        BuildCodeErrorCode.INVALID_LEGEND_ID,
+      );
+    }
+    for (const field of ['inactiveSkills', 'aquaticInactiveSkills'] as const) {
+      profSpec[field]?.forEach((skillId, i) => {
+        assertInteger(
+          skillId,
+          0,
+          Number.MAX_SAFE_INTEGER,
+          `professionSpecific.${field}[${i}]`,
+          BuildCodeErrorCode.INVALID_SKILL_ID,
+        );
+      });
+    }
+  }
+
+  if (buildCode.weapons) {
+    assertCount(
+      buildCode.weapons,
+      'weapons',
+      BuildCodeErrorCode.TOO_MANY_WEAPONS,
+    );
+    buildCode.weapons.forEach((weaponId, i) => {
+      assertInteger(
+        weaponId,
+        0,
+        0xffff,
+        `weapons[${i}]`,
+        BuildCodeErrorCode.INVALID_WEAPON_ID,
+      );
+    });
+  }
+
+  if (buildCode.skillVariants) {
+    assertCount(
+      buildCode.skillVariants,
+      'skillVariants',
+      BuildCodeErrorCode.TOO_MANY_SKILL_VARIANTS,
+    );
+    buildCode.skillVariants.forEach((variantId, i) => {
+      assertInteger(
+        variantId,
+        0,
+        0xffffffff,
+        `skillVariants[${i}]`,
+        BuildCodeErrorCode.INVALID_SKILL_VARIANT_ID,
+      );
+    });
+  }
+
+  const unparsed = buildCode.unparsed;
+  if (unparsed) {
+    const fixedLengths: Partial<Record<keyof UnparsedData, number>> = {
+      specializationBlock: 6,
+      professionBlock: 16,
+    };
+    for (const field of [
+      'specializationBlock',
+      'professionBlock',
+      'engineerExtension',
+      'trailing',
+    ] as const) {
+      const bytes = unparsed[field];
+      if (!bytes) continue;
+
+      const expectedLength = fixedLengths[field];
+      if (expectedLength !== undefined && bytes.length !== expectedLength) {
+        throw new BuildCodeError(
+          `Invalid unparsed.${field} length: ${bytes.length} (expected ${expectedLength})`,
+          BuildCodeErrorCode.INVALID_UNPARSED_DATA,
+          undefined,
+          { path: `unparsed.${field}` },
+        );
+      }
+      assertByteArray(
+        bytes,
+        `unparsed.${field}`,
+        BuildCodeErrorCode.INVALID_UNPARSED_DATA,
+      );
+    }
+  }
+}
+
+/**
+ * Throw unless `value` is an integer within [min, max]
+ */
+function assertInteger(
+  value: number,
+  min: number,
+  max: number,
+  path: string,
+  code: BuildCodeErrorCode,
+): void {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new BuildCodeError(
+      `Invalid value at ${path}: ${value} (expected an integer from ${min} to ${max})`,
+      code,
+      undefined,
+      { path },
+    );
+  }
+}
+
+/**
+ * Throw unless every entry of `values` fits in one byte
+ */
+function assertByteArray(
+  values: readonly number[],
+  path: string,
+  code: BuildCodeErrorCode,
+): void {
+  values.forEach((value, i) => {
+    assertInteger(value, 0, 0xff, `${path}[${i}]`, code);
+  });
+}
+
+/**
+ * Throw unless an array's length fits in its one-byte count prefix
+ */
+function assertCount(
+  values: readonly number[],
+  path: string,
+  code: BuildCodeErrorCode,
+): void {
+  if (values.length > 0xff) {
+    throw new BuildCodeError(
+      `Too many entries in ${path}: ${values.length} (maximum 255)`,
+      code,
+      undefined,
+      { path },
+    );
+  }
+}
+
+/**
+ * Throw unless a palette index returned by the mapper fits in a uint16
+ */
+function assertPaletteIndex(
+  paletteIndex: number,
+  skillId: number,
+  path: string,
+): void {
+  if (
+    !Number.isInteger(paletteIndex) ||
+    paletteIndex < 0 ||
+    paletteIndex > 0xffff
+  ) {
+    throw new BuildCodeError(
+      `Palette index ${paletteIndex} for skill ID ${skillId} at ${path} does not fit in 16 bits`,
+      BuildCodeErrorCode.PALETTE_INDEX_OUT_OF_RANGE,
+      undefined,
+      { path },
+    );
+  }
+}
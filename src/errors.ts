@@ -12,25 +12,97 @@ export enum BuildCodeErrorCode {
   PALETTE_LOOKUP_FAILED = 'PALETTE_LOOKUP_FAILED',
   /** Failed to decode base64 string */
   BASE64_DECODE_FAILED = 'BASE64_DECODE_FAILED',
+  /** Chat link wrapper is malformed (e.g. `[&` without closing `]`) */
+  MALFORMED_CHAT_LINK = 'MALFORMED_CHAT_LINK',
+  /** Base64 payload contains a character outside the standard alphabet (strict mode) */
+  INVALID_BASE64_CHARACTER = 'INVALID_BASE64_CHARACTER',
+  /** Base64 payload has missing, excess or misplaced `=` padding (strict mode) */
+  INVALID_BASE64_PADDING = 'INVALID_BASE64_PADDING',
+  /** Weapon array is shorter than its count byte announces */
+  TRUNCATED_WEAPON_ARRAY = 'TRUNCATED_WEAPON_ARRAY',
+  /** Skill variant array (or its count byte) is shorter than announced */
+  TRUNCATED_SKILL_VARIANT_ARRAY = 'TRUNCATED_SKILL_VARIANT_ARRAY',
+  /** Unexpected bytes after the end of the build code (strict mode) */
+  TRAILING_DATA = 'TRAILING_DATA',
+  /** More than 3 specializations passed to encode */
+  TOO_MANY_SPECIALIZATIONS = 'TOO_MANY_SPECIALIZATIONS',
+  /** Specialization ID does not fit in one byte (1-255) */
+  INVALID_SPECIALIZATION_ID = 'INVALID_SPECIALIZATION_ID',
+  /** Trait choice is not a TraitChoice value (0-3) */
+  INVALID_TRAIT_CHOICE = 'INVALID_TRAIT_CHOICE',
+  /** Skill ID is not a non-negative integer */
+  INVALID_SKILL_ID = 'INVALID_SKILL_ID',
+  /** Palette mapper returned an index that does not fit in a uint16 */
+  PALETTE_INDEX_OUT_OF_RANGE = 'PALETTE_INDEX_OUT_OF_RANGE',
+  /** Pet ID does not fit in one byte (0-255) */
+  INVALID_PET_ID = 'INVALID_PET_ID',
+  /** Legend ID does not fit in one byte (0-255) */
+  INVALID_LEGEND_ID = 'INVALID_LEGEND_ID',
+  /** More than 255 weapons passed to encode */
+  TOO_MANY_WEAPONS = 'TOO_MANY_WEAPONS',
+  /** Weapon ID does not fit in a uint16 */
+  INVALID_WEAPON_ID = 'INVALID_WEAPON_ID',
+  /** More than 255 skill variants passed to encode */
+  TOO_MANY_SKILL_VARIANTS = 'TOO_MANY_SKILL_VARIANTS',
+  /** Skill variant ID does not fit in a uint32 */
+  INVALID_SKILL_VARIANT_ID = 'INVALID_SKILL_VARIANT_ID',
+  /** Preserved raw bytes (`BuildCode.unparsed`) are not valid bytes or have the wrong length */
+  INVALID_UNPARSED_DATA = 'INVALID_UNPARSED_DATA',
+  /** A fix passed to applyFixes points at a field the build does not have */
+  INVALID_FIX = 'INVALID_FIX',
+  /** A chat link field passed to encodeChatLink is missing or does not fit the link format */
+  INVALID_CHAT_LINK_FIELD = 'INVALID_CHAT_LINK_FIELD',
+  /** Engineer extension is shorter than its format indicator announces */
+  TRUNCATED_ENGINEER_EXTENSION = 'TRUNCATED_ENGINEER_EXTENSION',
+  /** decodeAll hit an unexpected error while decoding a link (kept as `cause`) */
+  DECODE_FAILED = 'DECODE_FAILED',
+  /** A codec passed to ChatLinkRegistry reuses a registered type or type indicator */
+  DUPLICATE_CHAT_LINK_TYPE = 'DUPLICATE_CHAT_LINK_TYPE',
+}
+
+/**
+ * Optional location details attached to a BuildCodeError
+ */
+export interface BuildCodeErrorDetails {
+  /**
+   * Where the problem was found: a character index into the chat link for
+   * wrapper and base64 errors, a byte offset into the decoded data otherwise
+   */
+  offset?: number;
+  /**
+   * Path of the offending BuildCode field for encode errors (e.g. `specializations[1].traits[2]`),
+   * the JSON pointer of an invalid fix, or the offending chat link field
+   */
+  path?: string;
 }
 
 /**
  * Custom error for build code operations
  */
 export class BuildCodeError extends Error {
+  /** Character or byte offset of the problem, when known */
+  public readonly offset?: number;
+
+  /** Path of the offending BuildCode field, when known */
+  public readonly path?: string;
+
   /**
    * Create a new BuildCodeError
    * @param message - Human-readable error message
    * @param code - Error code for programmatic handling
    * @param cause - Optional underlying cause
+   * @param details - Optional location of the problem
    */
   constructor(
     message: string,
     public readonly code: BuildCodeErrorCode,
     public readonly cause?: unknown,
+    details: BuildCodeErrorDetails = {},
   ) {
     super(message);
     this.name = 'BuildCodeError';
+    this.offset = details.offset;
+    this.path = details.path;
 
     // Maintain proper stack trace for where error was thrown
     if (Error.captureStackTrace) {
@@ -0,0 +1,169 @@
+/**
+ * Applying validation fixes to builds
+ */
+
+import { BuildCodeError, BuildCodeErrorCode } from './errors.js';
+import type { BuildCode } from './types.js';
+import type { FixOperation, ValidationFix } from './validation-types.js';
+
+type Container = Record<string, unknown> | unknown[];
+
+/**
+ * Parent container and key of the field a JSON pointer points at
+ */
+interface Target {
+  parent: Container;
+  key: string;
+}
+
+/**
+ * Apply validation fixes to a build
+ *
+ * All paths refer to the build as it was validated, so fixes from one
+ * `validate` call can be applied together: replacements are applied first,
+ * then array entries are removed, then moves run (a move target index refers
+ * to the array after removals, and `-` means the end of the array).
+ *
+ * @param build - The validated build (not modified)
+ * @param fixes - Fixes to apply, e.g. `result.fixes`
+ * @returns A corrected copy of the build
+ * @throws {BuildCodeError} INVALID_FIX when an operation points at a field the build does not have
+ *
+ * @example
+ * ```typescript
+ * const validator = new BuildValidator(metadata, { suggestFixes: true });
+ * const result = await validator.validate(build);
+ * const repaired = applyFixes(build, result.fixes ?? []);
+ * ```
+ */
+export function applyFixes(
+  build: BuildCode,
+  fixes: readonly ValidationFix[],
+): BuildCode {
+  // BuildCode is plain JSON data
+  const fixed = JSON.parse(JSON.stringify(build)) as BuildCode;
+  const root = fixed as unknown as Container;
+  const operations: FixOperation[] = fixes.flatMap((fix) => fix.operations);
+
+  // Resolve every target before the structure changes
+  const removals = new Map<Container, Set<string>>();
+  const moves: { array: unknown[]; from: number; to: string }[] = [];
+
+  for (const operation of operations) {
+    const target = resolve(root, operation.path, operation.op === 'move');
+
+    if (operation.op === 'replace') {
+      assertExists(target, operation.path);
+      setValue(target, operation.value);
+    } else if (operation.op === 'remove') {
+      assertExists(target, operation.path);
+      const keys = removals.get(target.parent) ?? new Set<string>();
+      keys.add(target.key);
+      removals.set(target.parent, keys);
+    } else {
+      const source = resolve(root, operation.from, false);
+      assertExists(source, operation.from);
+      if (source.parent !== target.parent || !Array.isArray(source.parent)) {
+        throw invalidFix(
+          operation.path,
+          `Cannot move ${operation.from} to ${operation.path}: moves must stay within one array`,
+        );
+      }
+      moves.push({
+        array: source.parent,
+        from: Number(source.key),
+        to: target.key,
+      });
+    }
+  }
+
+  for (const [parent, keys] of removals) {
+    if (Array.isArray(parent)) {
+      const indices = [...keys].map(Number).sort((a, b) => b - a);
+      for (const index of indices) {
+        parent.splice(index, 1);
+      }
+    } else {
+      for (const key of keys) {
+        delete parent[key];
+      }
+    }
+  }
+
+  for (const { array, from, to } of moves) {
+    const removed = removals.get(array);
+    if (removed?.has(String(from))) continue; // Entry was removed by another fix
+
+    const shift = [...(removed ?? [])].filter((key) => Number(key) < from).length;
+    const [entry] = array.splice(from - shift, 1);
+    array.splice(to === '-' ? array.length : Number(to), 0, entry);
+  }
+
+  return fixed;
+}
+
+/**
+ * Split a JSON pointer into unescaped segments
+ */
+function parsePointer(path: string): string[] {
+  if (path === '' || !path.startsWith('/')) {
+    throw invalidFix(path, `Fix path "${path}" does not point at a build field`);
+  }
+  return path
+    .slice(1)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Find the container holding the field a JSON pointer points at
+ * @param allowAppend - Accept `-` as the last array segment
+ */
+function resolve(root: Container, path: string, allowAppend: boolean): Target {
+  const segments = parsePointer(path);
+  const key = segments.pop() ?? '';
+  let parent: unknown = root;
+
+  for (const segment of segments) {
+    if (!isContainer(parent) || !hasKey(parent, segment)) {
+      throw invalidFix(path, `Fix path "${path}" does not exist in the build`);
+    }
+    parent = (parent as Record<string, unknown>)[segment];
+  }
+
+  if (!isContainer(parent)) {
+    throw invalidFix(path, `Fix path "${path}" does not exist in the build`);
+  }
+  if (Array.isArray(parent) && !(allowAppend && key === '-')) {
+    if (!/^\d+$/.test(key) || Number(key) > parent.length) {
+      throw invalidFix(path, `Fix path "${path}" is not a valid array index`);
+    }
+  }
+  return { parent, key };
+}
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null;
+}
+
+function hasKey(container: Container, key: string): boolean {
+  return Array.isArray(container)
+    ? /^\d+$/.test(key) && Number(key) < container.length
+    : Object.prototype.hasOwnProperty.call(container, key);
+}
+
+function assertExists(target: Target, path: string): void {
+  if (!hasKey(target.parent, target.key)) {
+    throw invalidFix(path, `Fix path "${path}" does not exist in the build`);
+  }
+}
+
+function setValue(target: Target, value: unknown): void {
+  (target.parent as Record<string, unknown>)[target.key] = value;
+}
+
+function invalidFix(path: string, message: string): BuildCodeError {
+  return new BuildCodeError(message, BuildCodeErrorCode.INVALID_FIX, undefined, {
+    path,
+  });
+}
@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+/**
+ * Executable entry point of the gw2-build command-line tool
+ */
+
+import { run } from './cli.js';
+import type { CliIO } from './cli.js';
+
+const io: CliIO = {
+  async readStdin() {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  },
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+process.exitCode = await run(process.argv.slice(2), io);
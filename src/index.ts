@@ -5,19 +5,115 @@
  */
 
 // Core functions
-export { decode } from './decoder.js';
-export { encode } from './encoder.js';
+export { decode, decodeSync } from './decoder.js';
+export { encode, encodeSync } from './encoder.js';
+
+// Links in free text
+export { findBuildLinks, decodeAll } from './link-scanner.js';
+export type {
+  BuildLinkMatch,
+  BuildLinkResult,
+  DecodedBuildLink,
+  FailedBuildLink,
+} from './link-scanner.js';
+
+// Other chat link types
+export {
+  ChatLinkRegistry,
+  DEFAULT_CHAT_LINK_CODECS,
+  decodeChatLink,
+  encodeChatLink,
+} from './chat-link.js';
+export type {
+  ChatLink,
+  ChatLinkCodec,
+  ChatLinkDecodeOptions,
+  ItemLink,
+  MapChatLink,
+  SkillChatLink,
+  TraitChatLink,
+  RecipeChatLink,
+  SkinChatLink,
+  OutfitChatLink,
+  WvwObjectiveChatLink,
+} from './chat-link.js';
+export type { BinaryView } from './binary-view.js';
+export type { BinaryWriter } from './binary-writer.js';
+
+// Byte layout inspection
+export { inspect } from './inspector.js';
+export type {
+  BuildCodeInspection,
+  ByteRange,
+  InspectOptions,
+} from './inspector.js';
+
+// Offline palette mapping
+export {
+  TablePaletteMapper,
+  createPaletteTable,
+} from './table-palette-mapper.js';
+export type {
+  PaletteTableData,
+  LegendSkills,
+  ProfessionSnapshot,
+  LegendSnapshot,
+} from './table-palette-mapper.js';
+
+// Specialization catalog
+export {
+  SPECIALIZATIONS,
+  getSpecialization,
+  getSpecializationName,
+  getEliteSpecialization,
+  getProfessionSpecializations,
+  isEliteSpecialization,
+} from './specializations.js';
+export type { SpecializationEntry } from './specializations.js';
 
 // Validation (opt-in)
 export { BuildValidator } from './validator.js';
-export type { MetadataProvider } from './validator.js';
+export type { MetadataProvider, BuildValidatorOptions } from './validator.js';
+export { applyFixes } from './fixes.js';
+export { CachingMetadataProvider } from './metadata-cache.js';
+export { SnapshotMetadataProvider } from './snapshot-metadata-provider.js';
+export type {
+  MetadataSnapshots,
+  SkillSnapshot,
+  SpecializationSnapshot,
+  PetSnapshot,
+} from './snapshot-metadata-provider.js';
+export type { MetadataCacheOptions } from './metadata-cache.js';
+export { DEFAULT_RULES } from './validation-rules.js';
+export type {
+  ValidationRule,
+  ValidationRuleContext,
+} from './validation-rules.js';
 export type {
   ValidationResult,
   ValidationError,
   ValidationWarning,
+  ValidationIssue,
+  ValidationSeverity,
+  ValidationFix,
+  FixOperation,
+  ValidationErrorReport,
+  ValidationWarningReport,
+  ValidationErrorContexts,
+  ValidationWarningContexts,
+  SkillIssueContext,
+  SpecializationIssueContext,
+  PetIssueContext,
+  LegendIssueContext,
+  WeaponIssueContext,
+  SkillVariantIssueContext,
   SkillInfo,
   SpecializationInfo,
   PetInfo,
+  LegendInfo,
+  ProfessionInfo,
+  WeaponInfo,
+  SkillVariantInfo,
 } from './validation-types.js';
 export { ValidationErrorType, ValidationWarningType } from './validation-types.js';
 
@@ -27,12 +123,16 @@ export type {
   Specialization,
   Skills,
   PaletteMapper,
+  SyncPaletteMapper,
+  PaletteLookup,
+  SkillLookup,
   DecodeOptions,
   EncodeOptions,
   ProfessionSpecificData,
   RangerData,
   RevenantData,
   EngineerData,
+  UnparsedData,
 } from './types.js';
 
 // Enums
@@ -40,6 +140,7 @@ export { Profession, TraitChoice, Legend } from './types.js';
 
 // Errors
 export { BuildCodeError, BuildCodeErrorCode } from './errors.js';
+export type { BuildCodeErrorDetails } from './errors.js';
 
 // Constants (optional, for advanced users)
 export {
@@ -47,4 +148,8 @@ export {
   OFFICIAL_TYPE_INDICATOR,
   PROFESSION_NAMES,
   LEGEND_NAMES,
+  LEGEND_REQUIRED_SPECIALIZATIONS,
+  WEAPON_TYPE_NAMES,
+  CHAT_LINK_TYPE_INDICATORS,
+  ITEM_LINK_FLAGS,
 } from './constants.js';
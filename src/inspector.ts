@@ -0,0 +1,281 @@
+/**
+ * Byte layout inspection of build template chat links
+ */
+
+import {
+  LEGEND_NAMES,
+  OFFICIAL_CODE_LENGTH,
+  OFFICIAL_TYPE_INDICATOR,
+  PROFESSION_DATA_OFFSET,
+  PROFESSION_NAMES,
+  WEAPON_TYPE_NAMES,
+} from './constants.js';
+import { decodeChatLinkBytes } from './decoder.js';
+import { getSpecializationName } from './specializations.js';
+import { TraitChoice } from './types.js';
+import type { Skills } from './types.js';
+
+/**
+ * A labelled byte range of a build code
+ */
+export interface ByteRange {
+  /** Offset of the first byte */
+  start: number;
+  /** Number of bytes */
+  length: number;
+  /** The raw bytes */
+  bytes: number[];
+  /**
+   * BuildCode field the bytes encode (e.g. `profession`, `specializations[1].traits`,
+   * `skills.aquaticHeal`, `weapons.length`); skill fields hold palette indices
+   */
+  field: string;
+  /** Value of the bytes, read little-endian (absent for raw blocks) */
+  value?: number;
+  /** Meaning of the bytes, e.g. `profession: 8 (Necromancer)` */
+  description: string;
+  /** Unpacked Adept, Master and Grandmaster choices (trait bytes only) */
+  traits?: [TraitChoice, TraitChoice, TraitChoice];
+  /** The format does not account for these bytes: stray bits, non-zero padding, unknown values, truncated or trailing data */
+  unexplained?: boolean;
+}
+
+/**
+ * Byte layout of a build code
+ */
+export interface BuildCodeInspection {
+  /** Decoded bytes of the chat link */
+  bytes: number[];
+  /** Consecutive ranges covering every byte, in order */
+  ranges: ByteRange[];
+  /** Whether any range is flagged as unexplained */
+  hasUnexplainedBytes: boolean;
+}
+
+/**
+ * Options for inspecting a build code
+ */
+export interface InspectOptions {
+  /** Reject malformed `[&...]` wrappers, illegal base64 characters and wrong padding (default: false) */
+  strict?: boolean;
+}
+
+/** Skill slot order of bytes 8-27 (each terrestrial slot followed by its aquatic pair) */
+const SKILL_SLOTS: (keyof Skills)[] = [
+  'heal',
+  'aquaticHeal',
+  'utility1',
+  'aquaticUtility1',
+  'utility2',
+  'aquaticUtility2',
+  'utility3',
+  'aquaticUtility3',
+  'elite',
+  'aquaticElite',
+];
+
+/**
+ * Describe every byte range of a build template chat link
+ *
+ * Works on the raw bytes without a PaletteMapper, so skill slots show palette
+ * indices. Unlike `decode`, it does not stop at structural problems: a wrong
+ * type indicator, unknown profession, truncated array or trailing data is
+ * labelled and flagged as `unexplained` instead of throwing.
+ *
+ * @param chatLink - The chat link string (with or without [& and ] wrapping)
+ * @param options - Inspect options (strict base64 and wrapper checks)
+ * @returns Labelled byte ranges covering the whole code
+ * @throws {BuildCodeError} If the chat link wrapper or base64 is invalid
+ *
+ * @example
+ * ```typescript
+ * for (const range of inspect('[&DQg1KTI...]').ranges) {
+ *   console.log(range.start, range.field, range.description);
+ * }
+ * // 0 typeIndicator type indicator: 0x0d
+ * // 1 profession profession: 8 (Necromancer)
+ * // ...
+ * ```
+ */
+export function inspect(
+  chatLink: string,
+  options: InspectOptions = {},
+): BuildCodeInspection {
+  const bytes = Array.from(decodeChatLinkBytes(chatLink, options.strict));
+  const ranges: ByteRange[] = [];
+  let position = 0;
+
+  /**
+   * Label the next `length` bytes
+   *
+   * Returns the little-endian value, or undefined when the data ends first (the
+   * remaining bytes are then labelled as truncated).
+   */
+  const take = (
+    length: number,
+    field: string,
+    describe: (
+      value: number,
+      raw: number[],
+    ) => Pick<ByteRange, 'description' | 'traits' | 'unexplained'>,
+  ): number | undefined => {
+    if (position >= bytes.length) return undefined;
+
+    const start = position;
+    const raw = bytes.slice(start, start + length);
+    position = start + raw.length;
+    if (raw.length < length) {
+      ranges.push({
+        start,
+        length: raw.length,
+        bytes: raw,
+        field,
+        description: `${field}: truncated (${raw.length} of ${length} bytes)`,
+        unexplained: true,
+      });
+      return undefined;
+    }
+
+    const value = raw.reduceRight((sum, byte) => sum * 256 + byte, 0);
+    ranges.push({ start, length, bytes: raw, field, value, ...describe(value, raw) });
+    return value;
+  };
+
+  /** Label a block the format leaves unused; non-zero bytes are flagged */
+  const unused = (length: number, field: string) =>
+    take(length, field, (_value, raw) =>
+      raw.some((byte) => byte !== 0)
+        ? { description: 'unused (non-zero)', unexplained: true }
+        : { description: 'unused' },
+    );
+
+  take(1, 'typeIndicator', (value) =>
+    value === OFFICIAL_TYPE_INDICATOR
+      ? { description: `type indicator: ${hex(value)}` }
+      : {
+          description: `type indicator: ${hex(value)} (expected ${hex(OFFICIAL_TYPE_INDICATOR)})`,
+          unexplained: true,
+        },
+  );
+
+  const profession = take(1, 'profession', (value) =>
+    PROFESSION_NAMES[value]
+      ? { description: `profession: ${value} (${PROFESSION_NAMES[value]})` }
+      : { description: `profession: ${value} (unknown)`, unexplained: true },
+  );
+
+  for (let i = 0; i < 3; i++) {
+    const specId = take(1, `specializations[${i}].id`, (value) => ({
+      description:
+        value === 0
+          ? `specialization ${i + 1}: empty`
+          : `specialization ${i + 1}: ${value} (${getSpecializationName(value) ?? 'unknown'})`,
+    }));
+    take(1, `specializations[${i}].traits`, (value) => {
+      const traits: [TraitChoice, TraitChoice, TraitChoice] = [
+        value & 0b11,
+        (value >> 2) & 0b11,
+        (value >> 4) & 0b11,
+      ];
+      // Bits 6-7 are unused, and an empty slot has no trait choices
+      const stray = value >> 6 !== 0 || (specId === 0 && value !== 0);
+      return {
+        description: `traits: ${traits.map((choice) => TraitChoice[choice]).join('/')}${stray ? ' (stray bits)' : ''}`,
+        traits,
+        ...(stray ? { unexplained: true } : {}),
+      };
+    });
+  }
+
+  for (const slot of SKILL_SLOTS) {
+    take(2, `skills.${slot}`, (value) => ({
+      description: value === 0 ? `${slot}: empty` : `${slot}: palette ${value}`,
+    }));
+  }
+
+  if (profession === 4) {
+    // Ranger: terrestrial and aquatic pets
+    ['pets[0]', 'pets[1]', 'aquaticPets[0]', 'aquaticPets[1]'].forEach(
+      (pet) =>
+        take(1, `professionSpecific.${pet}`, (value) => ({
+          description: `${pet}: ${value === 0 ? 'none' : value}`,
+        })),
+    );
+    unused(12, 'unparsed.professionBlock');
+  } else if (profession === 9) {
+    // Revenant: legends and the inactive legends' utility skills
+    ['legends[0]', 'legends[1]', 'aquaticLegends[0]', 'aquaticLegends[1]'].forEach(
+      (legend) =>
+        take(1, `professionSpecific.${legend}`, (value) =>
+          value === 0
+            ? { description: `${legend}: none` }
+            : LEGEND_NAMES[value]
+              ? { description: `${legend}: ${value} (${LEGEND_NAMES[value]})` }
+              : { description: `${legend}: ${value} (unknown)`, unexplained: true },
+        ),
+    );
+    for (const skills of ['inactiveSkills', 'aquaticInactiveSkills']) {
+      for (let i = 0; i < 3; i++) {
+        take(2, `professionSpecific.${skills}[${i}]`, (value) => ({
+          description:
+            value === 0
+              ? `${skills}[${i}]: empty`
+              : `${skills}[${i}]: palette ${value}`,
+        }));
+      }
+    }
+  } else {
+    unused(
+      OFFICIAL_CODE_LENGTH - PROFESSION_DATA_OFFSET,
+      'unparsed.professionBlock',
+    );
+  }
+
+  // Extension (June 2023): weapons and skill variants
+  if (position < bytes.length && profession === 3) {
+    // Engineer codes carry an extension of unknown purpose instead
+    take(bytes.length - position, 'unparsed.engineerExtension', () => ({
+      description: 'Engineer extension (not decoded)',
+      unexplained: true,
+    }));
+  } else if (position < bytes.length) {
+    const weaponCount =
+      take(1, 'weapons.length', (value) => ({
+        description: `weapon count: ${value}`,
+      })) ?? 0;
+    for (let i = 0; i < weaponCount; i++) {
+      take(2, `weapons[${i}]`, (value) =>
+        WEAPON_TYPE_NAMES[value]
+          ? { description: `weapon ${i + 1}: ${value} (${WEAPON_TYPE_NAMES[value]})` }
+          : { description: `weapon ${i + 1}: ${value} (unknown)`, unexplained: true },
+      );
+    }
+
+    const variantCount =
+      take(1, 'skillVariants.length', (value) => ({
+        description: `skill variant count: ${value}`,
+      })) ?? 0;
+    for (let i = 0; i < variantCount; i++) {
+      take(4, `skillVariants[${i}]`, (value) => ({
+        description: `skill variant ${i + 1}: ${value}`,
+      }));
+    }
+
+    if (position < bytes.length) {
+      take(bytes.length - position, 'unparsed.trailing', () => ({
+        description: 'trailing data',
+        unexplained: true,
+      }));
+    }
+  }
+
+  return {
+    bytes,
+    ranges,
+    hasUnexplainedBytes: ranges.some((range) => range.unexplained),
+  };
+}
+
+function hex(byte: number): string {
+  return `0x${byte.toString(16).padStart(2, '0')}`;
+}
@@ -0,0 +1,135 @@
+/**
+ * Finding and decoding build template chat links in free text
+ */
+
+import { decodeBase64 } from './base64.js';
+import { OFFICIAL_TYPE_INDICATOR } from './constants.js';
+import { decode } from './decoder.js';
+import { BuildCodeError, BuildCodeErrorCode } from './errors.js';
+import type {
+  BuildCode,
+  DecodeOptions,
+  PaletteMapper,
+  SyncPaletteMapper,
+} from './types.js';
+
+/**
+ * A build template chat link found in text
+ */
+export interface BuildLinkMatch {
+  /** The chat link, including the `[&` and `]` wrapper */
+  chatLink: string;
+  /** Index of the opening `[` in the text */
+  start: number;
+  /** Index just past the closing `]` */
+  end: number;
+}
+
+/**
+ * A found link that decoded successfully
+ */
+export interface DecodedBuildLink extends BuildLinkMatch {
+  build: BuildCode;
+  error?: undefined;
+}
+
+/**
+ * A found link that failed to decode
+ */
+export interface FailedBuildLink extends BuildLinkMatch {
+  build?: undefined;
+  error: BuildCodeError;
+}
+
+/**
+ * Outcome of decoding one link found by {@link decodeAll}
+ */
+export type BuildLinkResult = DecodedBuildLink | FailedBuildLink;
+
+/** `[&` + base64 payload + `]` */
+const CHAT_LINK_PATTERN = /\[&([A-Za-z0-9+/]+={0,2})\]/g;
+
+/**
+ * Find every build template chat link in a text
+ *
+ * Scans for `[&...]` tokens and keeps those whose first byte is the build
+ * template type indicator (0x0D), so item, skill and other chat links are
+ * skipped. Links are not otherwise checked: a truncated build link is still
+ * returned, and fails when decoded.
+ *
+ * @param text - Text to scan, e.g. a chat message or forum post
+ * @returns Links in the order they appear
+ *
+ * @example
+ * ```typescript
+ * const links = findBuildLinks('Try [&DQg1KTI...] or [&DQkMKwM...] for raids');
+ * // [{ chatLink: '[&DQg1KTI...]', start: 4, end: 17 }, ...]
+ * ```
+ */
+export function findBuildLinks(text: string): BuildLinkMatch[] {
+  const matches: BuildLinkMatch[] = [];
+
+  for (const match of text.matchAll(CHAT_LINK_PATTERN)) {
+    if (decodeBase64(match[1])[0] !== OFFICIAL_TYPE_INDICATOR) continue;
+
+    matches.push({
+      chatLink: match[0],
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Decode every build template chat link in a text
+ *
+ * Each link is decoded on its own: a link that fails yields its BuildCodeError
+ * in the results instead of rejecting the whole call. Unexpected errors are
+ * wrapped in a `DECODE_FAILED` BuildCodeError with the original as `cause`.
+ *
+ * @param text - Text to scan, e.g. a chat message or forum post
+ * @param paletteMapper - Implementation for converting palette indices to skill IDs
+ * @param options - Decode options applied to every link
+ * @returns One result per link found by {@link findBuildLinks}, in text order
+ *
+ * @example
+ * ```typescript
+ * for (const result of await decodeAll(message, mapper)) {
+ *   if (result.error) {
+ *     console.warn(`${result.chatLink}: ${result.error.message}`);
+ *   } else {
+ *     console.log(result.build.profession);
+ *   }
+ * }
+ * ```
+ */
+export async function decodeAll(
+  text: string,
+  paletteMapper: PaletteMapper | SyncPaletteMapper,
+  options: DecodeOptions = {},
+): Promise<BuildLinkResult[]> {
+  return Promise.all(
+    findBuildLinks(text).map(async (match): Promise<BuildLinkResult> => {
+      try {
+        return {
+          ...match,
+          build: await decode(match.chatLink, paletteMapper, options),
+        };
+      } catch (error) {
+        return {
+          ...match,
+          error:
+            error instanceof BuildCodeError
+              ? error
+              : new BuildCodeError(
+                  `Failed to decode ${match.chatLink}: ${error instanceof Error ? error.message : String(error)}`,
+                  BuildCodeErrorCode.DECODE_FAILED,
+                  error,
+                ),
+        };
+      }
+    }),
+  );
+}
@@ -0,0 +1,169 @@
+/**
+ * Caching layer for metadata providers
+ */
+
+import type { MetadataProvider } from './validator.js';
+import type {
+  LegendInfo,
+  PetInfo,
+  ProfessionInfo,
+  SkillInfo,
+  SkillVariantInfo,
+  SpecializationInfo,
+} from './validation-types.js';
+
+/**
+ * Options for CachingMetadataProvider
+ */
+export interface MetadataCacheOptions {
+  /** Maximum entries kept per lookup kind (skills, specializations, ...); least recently used go first (default: 1000) */
+  maxEntries?: number;
+  /** Milliseconds before an entry is looked up again (default: 1 hour) */
+  ttl?: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_TTL = 60 * 60 * 1000;
+
+interface CacheEntry<T> {
+  value: Promise<T>;
+  expires: number;
+}
+
+/**
+ * Least-recently-used cache of lookup promises keyed by ID
+ */
+class LookupCache<K, T> {
+  private readonly entries = new Map<K, CacheEntry<T>>();
+
+  constructor(
+    private readonly load: (id: K) => Promise<T>,
+    private readonly maxEntries: number,
+    private readonly ttl: number,
+  ) {}
+
+  get(id: K): Promise<T> {
+    const cached = this.entries.get(id);
+    // Re-insert on every hit so Map order tracks recency
+    this.entries.delete(id);
+    if (cached && cached.expires > Date.now()) {
+      this.entries.set(id, cached);
+      return cached.value;
+    }
+
+    // Store the pending promise so concurrent lookups share one request
+    const entry: CacheEntry<T> = {
+      value: this.load(id),
+      expires: Date.now() + this.ttl,
+    };
+    this.entries.set(id, entry);
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+
+    // Failed lookups are not cached
+    entry.value.catch(() => {
+      if (this.entries.get(id) === entry) {
+        this.entries.delete(id);
+      }
+    });
+    return entry.value;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * MetadataProvider wrapper that caches and coalesces lookups
+ *
+ * Concurrent lookups of the same ID share one request, and results (including
+ * "not found") are kept in a per-kind LRU cache until their TTL runs out.
+ * Failed lookups are retried on the next call. Share one instance between
+ * validators and `validate` calls to avoid refetching the same data.
+ *
+ * @example
+ * ```typescript
+ * const metadata = new CachingMetadataProvider(apiProvider, {
+ *   maxEntries: 5000,
+ *   ttl: 10 * 60 * 1000,
+ * });
+ * const validator = new BuildValidator(metadata);
+ *
+ * const results = await Promise.all(builds.map((build) => validator.validate(build)));
+ * ```
+ */
+export class CachingMetadataProvider implements MetadataProvider {
+  /** Present only when the wrapped provider implements it */
+  readonly getPetInfo?: (petId: number) => Promise<PetInfo | null>;
+  /** Present only when the wrapped provider implements it */
+  readonly getLegendInfo?: (legendId: number) => Promise<LegendInfo | null>;
+  /** Present only when the wrapped provider implements it */
+  readonly getProfessionInfo?: (
+    profession: string,
+  ) => Promise<ProfessionInfo | null>;
+  /** Present only when the wrapped provider implements it */
+  readonly getSkillVariantInfo?: (
+    variantId: number,
+  ) => Promise<SkillVariantInfo | null>;
+
+  private readonly caches: LookupCache<unknown, unknown>[] = [];
+  private readonly skills: LookupCache<number, SkillInfo | null>;
+  private readonly specializations: LookupCache<
+    number,
+    SpecializationInfo | null
+  >;
+
+  constructor(provider: MetadataProvider, options: MetadataCacheOptions = {}) {
+    const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    const ttl = options.ttl ?? DEFAULT_TTL;
+    const cache = <K, T>(
+      load: (id: K) => Promise<T>,
+    ): LookupCache<K, T> => {
+      const created = new LookupCache(load, maxEntries, ttl);
+      this.caches.push(created as LookupCache<unknown, unknown>);
+      return created;
+    };
+
+    this.skills = cache((id: number) => provider.getSkillInfo(id));
+    this.specializations = cache((id: number) =>
+      provider.getSpecializationInfo(id),
+    );
+
+    if (provider.getPetInfo) {
+      const pets = cache(provider.getPetInfo.bind(provider));
+      this.getPetInfo = (petId) => pets.get(petId);
+    }
+    if (provider.getLegendInfo) {
+      const legends = cache(provider.getLegendInfo.bind(provider));
+      this.getLegendInfo = (legendId) => legends.get(legendId);
+    }
+    if (provider.getProfessionInfo) {
+      const professions = cache(provider.getProfessionInfo.bind(provider));
+      this.getProfessionInfo = (profession) => professions.get(profession);
+    }
+    if (provider.getSkillVariantInfo) {
+      const variants = cache(provider.getSkillVariantInfo.bind(provider));
+      this.getSkillVariantInfo = (variantId) => variants.get(variantId);
+    }
+  }
+
+  getSkillInfo(skillId: number): Promise<SkillInfo | null> {
+    return this.skills.get(skillId);
+  }
+
+  getSpecializationInfo(specId: number): Promise<SpecializationInfo | null> {
+    return this.specializations.get(specId);
+  }
+
+  /**
+   * Drop every cached entry
+   */
+  clear(): void {
+    for (const cache of this.caches) {
+      cache.clear();
+    }
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Shared helpers for resolving palette lookups
+ */
+
+import { BuildCodeError, BuildCodeErrorCode } from './errors.js';
+import type { PaletteLookup, SkillLookup } from './types.js';
+
+/**
+ * Run a batch palette mapper call, wrapping failures and checking the result count
+ *
+ * Skips the call when there is nothing to resolve.
+ */
+export async function resolveBatch<T extends PaletteLookup | SkillLookup>(
+  lookups: T[],
+  resolve: (lookups: T[]) => Promise<number[]>,
+): Promise<number[]> {
+  if (lookups.length === 0) {
+    return [];
+  }
+
+  let resolved: number[];
+  try {
+    resolved = await resolve(lookups);
+  } catch (error) {
+    throw new BuildCodeError(
+      `Failed to resolve ${lookups.length} palette lookups in batch`,
+      BuildCodeErrorCode.PALETTE_LOOKUP_FAILED,
+      error,
+    );
+  }
+
+  if (!Array.isArray(resolved) || resolved.length !== lookups.length) {
+    throw new BuildCodeError(
+      `Batch palette lookup returned ${Array.isArray(resolved) ? resolved.length : 'no'} results for ${lookups.length} lookups`,
+      BuildCodeErrorCode.PALETTE_LOOKUP_FAILED,
+    );
+  }
+
+  return resolved;
+}
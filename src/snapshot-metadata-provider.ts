@@ -0,0 +1,173 @@
+/**
+ * Offline metadata provider backed by GW2 API snapshot files
+ */
+
+import { legendCodeFromName } from './table-palette-mapper.js';
+import type {
+  LegendSnapshot,
+  ProfessionSnapshot,
+} from './table-palette-mapper.js';
+import type { MetadataProvider } from './validator.js';
+import type {
+  LegendInfo,
+  PetInfo,
+  ProfessionInfo,
+  SkillInfo,
+  SpecializationInfo,
+} from './validation-types.js';
+
+/**
+ * Skill entry of a `/v2/skills` snapshot
+ */
+export interface SkillSnapshot {
+  id: number;
+  name: string;
+  professions?: string[];
+  /** e.g. `"Heal"`, `"Utility"`, `"Elite"`, `"Weapon"` */
+  type?: string;
+  /** e.g. `"Heal"`, `"Utility"`, `"Elite"`, `"Weapon_1"` */
+  slot?: string;
+  /** Elite specialization required to use the skill */
+  specialization?: number;
+  flags?: string[];
+}
+
+/**
+ * Specialization entry of a `/v2/specializations` snapshot
+ */
+export interface SpecializationSnapshot {
+  id: number;
+  name: string;
+  profession: string;
+  elite: boolean;
+}
+
+/**
+ * Pet entry of a `/v2/pets` snapshot
+ */
+export interface PetSnapshot {
+  id: number;
+  name: string;
+}
+
+/**
+ * Snapshot files loaded by SnapshotMetadataProvider
+ *
+ * Each entry is the array returned by the matching `/v2` endpoint
+ * (e.g. as saved by `scripts/refresh-snapshots.mjs`).
+ */
+export interface MetadataSnapshots {
+  /** `/v2/skills` */
+  skills: SkillSnapshot[];
+  /** `/v2/specializations` */
+  specializations: SpecializationSnapshot[];
+  /** `/v2/pets` - enables pet validation */
+  pets?: PetSnapshot[];
+  /** `/v2/professions` - enables weapon validation */
+  professions?: ProfessionSnapshot[];
+  /** `/v2/legends` - enables Revenant legend skill validation */
+  legends?: LegendSnapshot[];
+}
+
+/**
+ * MetadataProvider that answers lookups from local GW2 API snapshots
+ *
+ * Snapshots are indexed by ID once, so lookups are map reads and no network
+ * access is needed. Pet, weapon and legend checks are only enabled for the
+ * snapshots that are provided.
+ *
+ * @example
+ * ```typescript
+ * import skills from './snapshots/skills.json';
+ * import specializations from './snapshots/specializations.json';
+ * import pets from './snapshots/pets.json';
+ *
+ * const metadata = new SnapshotMetadataProvider({ skills, specializations, pets });
+ * const result = await new BuildValidator(metadata).validate(build);
+ * ```
+ */
+export class SnapshotMetadataProvider implements MetadataProvider {
+  /** Present only when a pets snapshot was provided */
+  readonly getPetInfo?: (petId: number) => Promise<PetInfo | null>;
+  /** Present only when a professions snapshot was provided */
+  readonly getProfessionInfo?: (
+    profession: string,
+  ) => Promise<ProfessionInfo | null>;
+  /** Present only when a legends snapshot was provided */
+  readonly getLegendInfo?: (legendId: number) => Promise<LegendInfo | null>;
+
+  private readonly skills = new Map<number, SkillInfo>();
+  private readonly specializations = new Map<number, SpecializationInfo>();
+
+  /**
+   * Index snapshot data
+   * @param snapshots - Parsed snapshot files
+   * @throws {BuildCodeError} If a legend cannot be identified
+   */
+  constructor(snapshots: MetadataSnapshots) {
+    for (const skill of snapshots.skills) {
+      this.skills.set(skill.id, {
+        id: skill.id,
+        name: skill.name,
+        professions: skill.professions ?? [],
+        type: skill.type ?? '',
+        slot: skill.slot ?? '',
+        ...(skill.specialization
+          ? { specialization: skill.specialization }
+          : {}),
+        ...(skill.flags ? { flags: skill.flags } : {}),
+      });
+    }
+
+    for (const spec of snapshots.specializations) {
+      this.specializations.set(spec.id, {
+        id: spec.id,
+        name: spec.name,
+        profession: spec.profession,
+        elite: spec.elite,
+      });
+    }
+
+    if (snapshots.pets) {
+      const pets = new Map<number, PetInfo>(
+        snapshots.pets.map((pet) => [pet.id, { id: pet.id, name: pet.name }]),
+      );
+      this.getPetInfo = async (petId) => pets.get(petId) ?? null;
+    }
+
+    if (snapshots.professions) {
+      const professions = new Map<string, ProfessionInfo>(
+        snapshots.professions.map((profession) => [
+          profession.id,
+          { name: profession.id, weapons: profession.weapons ?? {} },
+        ]),
+      );
+      this.getProfessionInfo = async (profession) =>
+        professions.get(profession) ?? null;
+    }
+
+    if (snapshots.legends) {
+      const legends = new Map<number, LegendInfo>();
+      for (const legend of snapshots.legends) {
+        const id = legend.code ?? legendCodeFromName(legend.id);
+        legends.set(id, {
+          id,
+          heal: legend.heal,
+          utilities: legend.utilities,
+          elite: legend.elite,
+        });
+      }
+      this.getLegendInfo = async (legendId) => legends.get(legendId) ?? null;
+    }
+  }
+
+  async getSkillInfo(skillId: number): Promise<SkillInfo | null> {
+    return this.skills.get(skillId) ?? null;
+  }
+
+  async getSpecializationInfo(
+    specId: number,
+  ): Promise<SpecializationInfo | null> {
+    return this.specializations.get(specId) ?? null;
+  }
+}
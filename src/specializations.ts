@@ -0,0 +1,187 @@
+/**
+ * Static catalog of core and elite specializations
+ *
+ * IDs match the GW2 API (`/v2/specializations`) and the specialization bytes
+ * of build codes, so builds can be labelled without a MetadataProvider.
+ */
+
+import type { BuildCode } from './types.js';
+import { Profession } from './types.js';
+
+/**
+ * Catalog entry for one specialization
+ */
+export interface SpecializationEntry {
+  /** Specialization ID */
+  id: number;
+  /** English display name */
+  name: string;
+  /** Profession the specialization belongs to */
+  profession: Profession;
+  /** Whether this is an elite specialization */
+  elite: boolean;
+}
+
+/**
+ * Compact catalog rows: [id, name, profession, elite]
+ */
+const CATALOG: [number, string, Profession, boolean][] = [
+  [1, 'Dueling', Profession.Mesmer, false],
+  [2, 'Death Magic', Profession.Necromancer, false],
+  [3, 'Invocation', Profession.Revenant, false],
+  [4, 'Strength', Profession.Warrior, false],
+  [5, 'Druid', Profession.Ranger, true],
+  [6, 'Explosives', Profession.Engineer, false],
+  [7, 'Daredevil', Profession.Thief, true],
+  [8, 'Marksmanship', Profession.Ranger, false],
+  [9, 'Retribution', Profession.Revenant, false],
+  [10, 'Domination', Profession.Mesmer, false],
+  [11, 'Tactics', Profession.Warrior, false],
+  [12, 'Salvation', Profession.Revenant, false],
+  [13, 'Valor', Profession.Guardian, false],
+  [14, 'Corruption', Profession.Revenant, false],
+  [15, 'Devastation', Profession.Revenant, false],
+  [16, 'Radiance', Profession.Guardian, false],
+  [17, 'Water', Profession.Elementalist, false],
+  [18, 'Berserker', Profession.Warrior, true],
+  [19, 'Blood Magic', Profession.Necromancer, false],
+  [20, 'Shadow Arts', Profession.Thief, false],
+  [21, 'Tools', Profession.Engineer, false],
+  [22, 'Defense', Profession.Warrior, false],
+  [23, 'Inspiration', Profession.Mesmer, false],
+  [24, 'Illusions', Profession.Mesmer, false],
+  [25, 'Nature Magic', Profession.Ranger, false],
+  [26, 'Earth', Profession.Elementalist, false],
+  [27, 'Dragonhunter', Profession.Guardian, true],
+  [28, 'Deadly Arts', Profession.Thief, false],
+  [29, 'Alchemy', Profession.Engineer, false],
+  [30, 'Skirmishing', Profession.Ranger, false],
+  [31, 'Fire', Profession.Elementalist, false],
+  [32, 'Beastmastery', Profession.Ranger, false],
+  [33, 'Wilderness Survival', Profession.Ranger, false],
+  [34, 'Reaper', Profession.Necromancer, true],
+  [35, 'Critical Strikes', Profession.Thief, false],
+  [36, 'Arms', Profession.Warrior, false],
+  [37, 'Arcane', Profession.Elementalist, false],
+  [38, 'Firearms', Profession.Engineer, false],
+  [39, 'Curses', Profession.Necromancer, false],
+  [40, 'Chronomancer', Profession.Mesmer, true],
+  [41, 'Air', Profession.Elementalist, false],
+  [42, 'Zeal', Profession.Guardian, false],
+  [43, 'Scrapper', Profession.Engineer, true],
+  [44, 'Trickery', Profession.Thief, false],
+  [45, 'Chaos', Profession.Mesmer, false],
+  [46, 'Virtues', Profession.Guardian, false],
+  [47, 'Inventions', Profession.Engineer, false],
+  [48, 'Tempest', Profession.Elementalist, true],
+  [49, 'Honor', Profession.Guardian, false],
+  [50, 'Soul Reaping', Profession.Necromancer, false],
+  [51, 'Discipline', Profession.Warrior, false],
+  [52, 'Herald', Profession.Revenant, true],
+  [53, 'Spite', Profession.Necromancer, false],
+  [54, 'Acrobatics', Profession.Thief, false],
+  [55, 'Soulbeast', Profession.Ranger, true],
+  [56, 'Weaver', Profession.Elementalist, true],
+  [57, 'Holosmith', Profession.Engineer, true],
+  [58, 'Deadeye', Profession.Thief, true],
+  [59, 'Mirage', Profession.Mesmer, true],
+  [60, 'Scourge', Profession.Necromancer, true],
+  [61, 'Spellbreaker', Profession.Warrior, true],
+  [62, 'Firebrand', Profession.Guardian, true],
+  [63, 'Renegade', Profession.Revenant, true],
+  [64, 'Harbinger', Profession.Necromancer, true],
+  [65, 'Willbender', Profession.Guardian, true],
+  [66, 'Virtuoso', Profession.Mesmer, true],
+  [67, 'Catalyst', Profession.Elementalist, true],
+  [68, 'Bladesworn', Profession.Warrior, true],
+  [69, 'Vindicator', Profession.Revenant, true],
+  [70, 'Mechanist', Profession.Engineer, true],
+  [71, 'Specter', Profession.Thief, true],
+  [72, 'Untamed', Profession.Ranger, true],
+  [73, 'Troubadour', Profession.Mesmer, true],
+  [74, 'Paragon', Profession.Warrior, true],
+  [75, 'Amalgam', Profession.Engineer, true],
+  [76, 'Ritualist', Profession.Necromancer, true],
+  [77, 'Antiquary', Profession.Thief, true],
+  [78, 'Galeshot', Profession.Ranger, true],
+  [79, 'Conduit', Profession.Revenant, true],
+  [80, 'Evoker', Profession.Elementalist, true],
+  [81, 'Luminary', Profession.Guardian, true],
+];
+
+/**
+ * All known specializations, keyed by ID
+ */
+export const SPECIALIZATIONS: Readonly<Record<number, SpecializationEntry>> =
+  Object.fromEntries(
+    CATALOG.map(([id, name, profession, elite]) => [
+      id,
+      { id, name, profession, elite },
+    ]),
+  );
+
+/**
+ * Look up a specialization in the catalog
+ * @param id - Specialization ID
+ * @returns The catalog entry, or undefined for unknown IDs
+ */
+export function getSpecialization(id: number): SpecializationEntry | undefined {
+  return SPECIALIZATIONS[id];
+}
+
+/**
+ * Get the display name of a specialization
+ * @param id - Specialization ID
+ * @returns The English name (e.g. "Reaper"), or undefined for unknown IDs
+ */
+export function getSpecializationName(id: number): string | undefined {
+  return SPECIALIZATIONS[id]?.name;
+}
+
+/**
+ * Check whether a specialization ID is an elite specialization
+ * @param id - Specialization ID
+ */
+export function isEliteSpecialization(id: number): boolean {
+  return SPECIALIZATIONS[id]?.elite === true;
+}
+
+/**
+ * List the specializations of a profession
+ * @param profession - The profession
+ * @returns Core specializations followed by elite specializations, each in ID order
+ */
+export function getProfessionSpecializations(
+  profession: Profession,
+): SpecializationEntry[] {
+  const entries = Object.values(SPECIALIZATIONS).filter(
+    (spec) => spec.profession === profession,
+  );
+  return [
+    ...entries.filter((spec) => !spec.elite),
+    ...entries.filter((spec) => spec.elite),
+  ];
+}
+
+/**
+ * Get the elite specialization a build uses
+ *
+ * @param build - A decoded build
+ * @returns The elite specialization, or undefined for core builds
+ *
+ * @example
+ * ```typescript
+ * const elite = getEliteSpecialization(build);
+ * console.log(elite?.name ?? 'Core'); // "Reaper"
+ * ```
+ */
+export function getEliteSpecialization(
+  build: Pick<BuildCode, 'specializations'>,
+): SpecializationEntry | undefined {
+  for (const spec of build.specializations) {
+    if (isEliteSpecialization(spec.id)) {
+      return SPECIALIZATIONS[spec.id];
+    }
+  }
+  return undefined;
+}
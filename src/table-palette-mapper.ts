@@ -0,0 +1,263 @@
+/**
+ * Offline palette mapper backed by a table built from GW2 API snapshots
+ */
+
+import { PROFESSION_NAMES } from './constants.js';
+import { BuildCodeError, BuildCodeErrorCode } from './errors.js';
+import type { Profession, SyncPaletteMapper } from './types.js';
+
+/**
+ * Skills of one Revenant legend, in palette slot order
+ */
+export interface LegendSkills {
+  heal: number;
+  utilities: [number, number, number];
+  elite: number;
+}
+
+/**
+ * Compact palette table, as written by the palette table generator
+ */
+export interface PaletteTableData {
+  /** Profession code → `[paletteIndex, skillId]` pairs */
+  professions: Record<number, [number, number][]>;
+  /** Legend code → legend skills (Revenant legend-specific palettes) */
+  legends?: Record<number, LegendSkills>;
+}
+
+/**
+ * Profession entry of a `/v2/professions` snapshot
+ *
+ * Requires the `X-Schema-Version: 2019-12-19T00:00:00.000Z` (or later) schema
+ * for `code` and `skills_by_palette`.
+ */
+export interface ProfessionSnapshot {
+  /** Profession name, e.g. `"Revenant"` */
+  id: string;
+  /** Profession code used in build templates (1-9) */
+  code?: number;
+  /** `[palette index, skill ID]` pairs (typed loosely to accept imported JSON) */
+  skills_by_palette: number[][];
+  /** Weapons keyed by weapon type name (used by SnapshotMetadataProvider) */
+  weapons?: Record<string, { specialization?: number; flags?: string[] }>;
+}
+
+/**
+ * Legend entry of a `/v2/legends` snapshot
+ */
+export interface LegendSnapshot {
+  /** Legend name, e.g. `"Legend1"` */
+  id: string;
+  /** Legend code used in build templates */
+  code?: number;
+  heal: number;
+  elite: number;
+  utilities: number[];
+}
+
+/** Position of a skill within a legend: 0 heal, 1-3 utilities, 4 elite */
+type LegendSlot = 0 | 1 | 2 | 3 | 4;
+
+/**
+ * Convert `/v2/professions` (and optionally `/v2/legends`) snapshots into a palette table
+ *
+ * @param professions - Profession objects as returned by `/v2/professions?ids=all`
+ * @param legends - Legend objects as returned by `/v2/legends?ids=all`
+ * @returns Compact palette table
+ * @throws {BuildCodeError} If a profession or legend cannot be identified
+ */
+export function createPaletteTable(
+  professions: ProfessionSnapshot[],
+  legends: LegendSnapshot[] = [],
+): PaletteTableData {
+  const table: PaletteTableData = { professions: {} };
+
+  for (const profession of professions) {
+    const code = profession.code ?? professionCodeFromName(profession.id);
+    table.professions[code] = profession.skills_by_palette.map(
+      ([paletteIndex, skillId]): [number, number] => [paletteIndex, skillId],
+    );
+  }
+
+  if (legends.length > 0) {
+    table.legends = {};
+    for (const legend of legends) {
+      const code = legend.code ?? legendCodeFromName(legend.id);
+      table.legends[code] = {
+        heal: legend.heal,
+        utilities: [
+          legend.utilities[0] ?? 0,
+          legend.utilities[1] ?? 0,
+          legend.utilities[2] ?? 0,
+        ],
+        elite: legend.elite,
+      };
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Palette mapper that resolves skills from an in-memory palette table
+ *
+ * Works with `decodeSync`/`encodeSync` as well as `decode`/`encode`, without
+ * network access. Revenant skills are resolved per legend: a palette index
+ * selects a legend slot (heal, utility 1-3, elite), and the legend passed to
+ * the mapper decides which skill fills it.
+ *
+ * @example
+ * ```typescript
+ * import professions from './professions.json';
+ * import legends from './legends.json';
+ *
+ * const mapper = TablePaletteMapper.fromSnapshot(professions, legends);
+ * const build = decodeSync(chatLink, mapper);
+ * ```
+ */
+export class TablePaletteMapper implements SyncPaletteMapper {
+  private readonly paletteToSkillTable = new Map<number, Map<number, number>>();
+  private readonly skillToPaletteTable = new Map<number, Map<number, number>>();
+  private readonly legends = new Map<number, number[]>();
+  private readonly legendSlots = new Map<number, LegendSlot>();
+  private readonly legendSlotPalette = new Map<LegendSlot, number>();
+
+  /**
+   * Create a mapper from a compact palette table
+   * @param data - Table as produced by {@link createPaletteTable} or the generator
+   */
+  constructor(data: PaletteTableData) {
+    for (const [code, pairs] of Object.entries(data.professions)) {
+      const toSkill = new Map<number, number>();
+      const toPalette = new Map<number, number>();
+      for (const [paletteIndex, skillId] of pairs) {
+        toSkill.set(paletteIndex, skillId);
+        // Keep the first palette index when a skill appears more than once
+        if (!toPalette.has(skillId)) {
+          toPalette.set(skillId, paletteIndex);
+        }
+      }
+      this.paletteToSkillTable.set(Number(code), toSkill);
+      this.skillToPaletteTable.set(Number(code), toPalette);
+    }
+
+    for (const [code, legend] of Object.entries(data.legends ?? {})) {
+      const skills = [legend.heal, ...legend.utilities, legend.elite];
+      this.legends.set(Number(code), skills);
+      skills.forEach((skillId, slot) => {
+        if (skillId !== 0) {
+          this.legendSlots.set(skillId, slot as LegendSlot);
+        }
+      });
+    }
+
+    // Palette index that stands for each legend slot, for encoding skills of
+    // legends whose skills are not listed in the profession palette
+    const revenantPalette = this.skillToPaletteTable.get(9);
+    if (revenantPalette) {
+      for (const [skillId, paletteIndex] of revenantPalette) {
+        const slot = this.legendSlots.get(skillId);
+        if (slot !== undefined && !this.legendSlotPalette.has(slot)) {
+          this.legendSlotPalette.set(slot, paletteIndex);
+        }
+      }
+    }
+  }
+
+  /**
+   * Create a mapper directly from `/v2/professions` and `/v2/legends` snapshots
+   * @param professions - Profession objects as returned by `/v2/professions?ids=all`
+   * @param legends - Legend objects as returned by `/v2/legends?ids=all`
+   */
+  static fromSnapshot(
+    professions: ProfessionSnapshot[],
+    legends: LegendSnapshot[] = [],
+  ): TablePaletteMapper {
+    return new TablePaletteMapper(createPaletteTable(professions, legends));
+  }
+
+  /**
+   * Convert a palette index to a skill ID
+   * @throws {BuildCodeError} If the palette index is not in the table
+   */
+  paletteToSkill(
+    profession: Profession,
+    paletteIndex: number,
+    legend?: number,
+  ): number {
+    if (paletteIndex === 0) return 0;
+
+    const skillId = this.paletteToSkillTable.get(profession)?.get(paletteIndex);
+    if (skillId === undefined) {
+      throw new BuildCodeError(
+        `Palette index ${paletteIndex} not found for profession ${profession}`,
+        BuildCodeErrorCode.PALETTE_LOOKUP_FAILED,
+      );
+    }
+
+    // Revenant: swap in the skill of the requested legend for the same slot
+    const legendSkills = legend !== undefined ? this.legends.get(legend) : undefined;
+    const slot = this.legendSlots.get(skillId);
+    if (legendSkills && slot !== undefined) {
+      return legendSkills[slot];
+    }
+
+    return skillId;
+  }
+
+  /**
+   * Convert a skill ID to a palette index
+   * @throws {BuildCodeError} If the skill is not in the table
+   */
+  skillToPalette(profession: Profession, skillId: number): number {
+    if (skillId === 0) return 0;
+
+    const paletteIndex = this.skillToPaletteTable.get(profession)?.get(skillId);
+    if (paletteIndex !== undefined) {
+      return paletteIndex;
+    }
+
+    // Revenant: legend skills share the palette index of their slot
+    const slot = this.legendSlots.get(skillId);
+    const slotPalette =
+      slot !== undefined ? this.legendSlotPalette.get(slot) : undefined;
+    if (profession === 9 && slotPalette !== undefined) {
+      return slotPalette;
+    }
+
+    throw new BuildCodeError(
+      `Skill ID ${skillId} not found in palette for profession ${profession}`,
+      BuildCodeErrorCode.PALETTE_LOOKUP_FAILED,
+    );
+  }
+}
+
+/**
+ * Resolve a profession code from its API name (e.g. `"Revenant"` → 9)
+ */
+function professionCodeFromName(name: string): number {
+  const entry = Object.entries(PROFESSION_NAMES).find(
+    ([, professionName]) => professionName === name,
+  );
+  if (!entry) {
+    throw new BuildCodeError(
+      `Unknown profession in snapshot: ${name}`,
+      BuildCodeErrorCode.INVALID_PROFESSION,
+    );
+  }
+  return Number(entry[0]);
+}
+
+/**
+ * Resolve a legend code from its API name (e.g. `"Legend3"` → 3)
+ */
+export function legendCodeFromName(name: string): number {
+  const match = /^Legend(\d+)$/.exec(name);
+  if (!match) {
+    throw new BuildCodeError(
+      `Unknown legend in snapshot: ${name}`,
+      BuildCodeErrorCode.INVALID_LEGEND_ID,
+    );
+  }
+  return Number(match[1]);
+}
@@ -18,6 +18,36 @@ export interface BuildCode {
   weapons?: number[];
   /** Skill variant overrides (added in June 2023 update) */
   skillVariants?: number[];
+  /** Raw bytes the decoder does not model (only set when decoding with `lossless: true`) */
+  unparsed?: UnparsedData;
+}
+
+/**
+ * Raw byte segments preserved by lossless decoding
+ *
+ * The encoder writes these back byte for byte so that
+ * `encode(decode(link, mapper, { lossless: true }), mapper)` reproduces the original link.
+ */
+export interface UnparsedData {
+  /**
+   * Raw specialization block (bytes 2-7), kept when empty slots precede a filled one
+   * or unused trait bits are set. Written back only while `specializations` still matches it.
+   */
+  specializationBlock?: number[];
+  /**
+   * Full profession-specific block (bytes 28-43), kept when it holds bytes outside
+   * the modelled pets/legends (e.g. Revenant inactive skills without a second legend).
+   * Modelled fields are written over it on encode; absent inactive skills keep the raw bytes.
+   */
+  professionBlock?: number[];
+  /** Engineer extended block (bytes 44+), written back in place of weapons and skill variants */
+  engineerExtension?: number[];
+  /** The extension was present with zero weapons and zero skill variants */
+  emptyExtension?: boolean;
+  /** The extension ended before the skill variant count byte (lenient mode only) */
+  missingVariantCount?: boolean;
+  /** Bytes following the skill variant array */
+  trailing?: number[];
 }
 
 /**
@@ -96,12 +126,14 @@ export type ProfessionSpecificData =
   | EngineerData;
 
 /**
- * Ranger-specific data (terrestrial pets)
+ * Ranger-specific data (terrestrial and aquatic pets)
  */
 export interface RangerData {
   type: 'ranger';
-  /** Two pet IDs */
+  /** Two terrestrial pet IDs (bytes 28-29) */
   pets: [number, number];
+  /** Two aquatic pet IDs (bytes 30-31, omitted when both slots are empty) */
+  aquaticPets?: [number, number];
 }
 
 /**
@@ -129,10 +161,14 @@ export enum Legend {
  */
 export interface RevenantData {
   type: 'revenant';
-  /** Two legend choices */
+  /** Two terrestrial legend choices */
   legends: [number, number?];
-  /** Utility skills for the inactive legend (optional) */
+  /** Utility skills for the inactive terrestrial legend (optional) */
   inactiveSkills?: [number, number, number];
+  /** Two aquatic legend choices (omitted when no aquatic legend is set) */
+  aquaticLegends?: [number, number?];
+  /** Utility skills for the inactive aquatic legend (optional) */
+  aquaticInactiveSkills?: [number, number, number];
 }
 
 /**
@@ -184,21 +220,113 @@ export interface PaletteMapper {
     skillId: number,
     legend?: number,
   ): Promise<number>;
+
+  /**
+   * Optional: convert many palette indices in one call
+   *
+   * When present, `decode` resolves all slots of a build with a single call
+   * instead of one `paletteToSkill` call per slot.
+   * @param lookups - Palette indices to resolve
+   * @returns Promise resolving to the skill IDs, in the same order as `lookups`
+   */
+  paletteToSkillBatch?(lookups: PaletteLookup[]): Promise<number[]>;
+
+  /**
+   * Optional: convert many skill IDs in one call
+   *
+   * When present, `encode` resolves all skills of a build with a single call
+   * instead of one `skillToPalette` call per skill.
+   * @param lookups - Skill IDs to resolve
+   * @returns Promise resolving to the palette indices, in the same order as `lookups`
+   */
+  skillToPaletteBatch?(lookups: SkillLookup[]): Promise<number[]>;
+}
+
+/**
+ * A palette index to resolve, as passed to {@link PaletteMapper.paletteToSkillBatch}
+ */
+export interface PaletteLookup {
+  profession: Profession;
+  paletteIndex: number;
+  /** Legend ID for Revenant legend-specific skills */
+  legend?: number;
+}
+
+/**
+ * A skill ID to resolve, as passed to {@link PaletteMapper.skillToPaletteBatch}
+ */
+export interface SkillLookup {
+  profession: Profession;
+  skillId: number;
+  /** Legend ID for Revenant legend-specific skills */
+  legend?: number;
+}
+
+/**
+ * Synchronous variant of {@link PaletteMapper} for in-memory palette tables
+ *
+ * Used by `decodeSync`/`encodeSync`; `decode`/`encode` accept it as well.
+ */
+export interface SyncPaletteMapper {
+  /**
+   * Convert a palette index to a skill ID
+   * @param profession - The character profession
+   * @param paletteIndex - The palette index from the build code
+   * @param legend - Optional legend ID for Revenant profession (required for legend-specific skills)
+   * @returns The corresponding skill ID
+   */
+  paletteToSkill(
+    profession: Profession,
+    paletteIndex: number,
+    legend?: number,
+  ): number;
+
+  /**
+   * Convert a skill ID to a palette index
+   * @param profession - The character profession
+   * @param skillId - The skill ID to encode
+   * @param legend - Optional legend ID for Revenant profession (required for legend-specific skills)
+   * @returns The corresponding palette index
+   */
+  skillToPalette(
+    profession: Profession,
+    skillId: number,
+    legend?: number,
+  ): number;
 }
 
 /**
  * Options for decoding a build code
  */
 export interface DecodeOptions {
-  /** Whether this is an aquatic (underwater) build */
+  /**
+   * Ignored: both skill bars, both Ranger pet pairs and both Revenant legend pairs
+   * are always decoded (see `aquaticPets`, `aquaticLegends` and `aquaticInactiveSkills`)
+   *
+   * @deprecated Read the aquatic fields of the decoded BuildCode instead
+   */
   aquatic?: boolean;
+  /**
+   * Preserve unrecognised bytes in `BuildCode.unparsed` for byte-exact re-encoding (default: false).
+   * Revenant legends are also kept in byte order rather than moving a lone second legend first.
+   */
+  lossless?: boolean;
+  /**
+   * Reject malformed input instead of guessing (default: false): illegal base64
+   * characters, wrong padding, a malformed `[&...]` wrapper, truncated arrays and trailing bytes
+   */
+  strict?: boolean;
 }
 
 /**
  * Options for encoding a build code
  */
 export interface EncodeOptions {
-  /** Whether this is an aquatic (underwater) build */
+  /**
+   * Ignored: both skill bars and the aquatic profession fields are always encoded
+   *
+   * @deprecated Set the aquatic fields of the BuildCode instead
+   */
   aquatic?: boolean;
   /** Whether to wrap the result in chat link format [&...] (default: true) */
   wrapInChatLink?: boolean;
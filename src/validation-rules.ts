@@ -0,0 +1,962 @@
+/**
+ * Validation rules run by BuildValidator
+ *
+ * Every built-in check is a rule with an ID, so it can be switched off on its
+ * own; custom rules use the same interface.
+ */
+
+import {
+  LEGEND_NAMES,
+  LEGEND_REQUIRED_SPECIALIZATIONS,
+  WEAPON_TYPE_NAMES,
+} from './constants.js';
+import { getSpecializationName } from './specializations.js';
+import { Legend, TraitChoice } from './types.js';
+import type { BuildCode, Skills } from './types.js';
+import type { MetadataProvider } from './validator.js';
+import type {
+  LegendInfo,
+  ValidationFix,
+  ValidationErrorReport,
+  ValidationWarningReport,
+} from './validation-types.js';
+import {
+  ValidationErrorType,
+  ValidationWarningType,
+} from './validation-types.js';
+
+/**
+ * Context passed to every rule during one `validate` call
+ */
+export interface ValidationRuleContext {
+  /** Profession name of the build (e.g. "Necromancer") */
+  professionName: string;
+  /** Caller-supplied data from `validate(build, data)` (e.g. game mode) */
+  data: Readonly<Record<string, unknown>>;
+  /** Report an error (makes the build invalid); the validator fills in `severity` and `ruleId` */
+  addError(error: ValidationErrorReport): void;
+  /** Report a warning; the validator fills in `severity` and `ruleId` */
+  addWarning(warning: ValidationWarningReport): void;
+}
+
+/**
+ * A validation rule
+ *
+ * @example
+ * ```typescript
+ * const noSignetOfUndeathInWvw: ValidationRule = {
+ *   id: 'no-signet-of-undeath-in-wvw',
+ *   check(build, _metadata, context) {
+ *     const skills = Object.values(build.skills);
+ *     if (context.data.mode === 'wvw' && skills.includes(10611)) {
+ *       context.addError({
+ *         type: ValidationErrorType.RULE_VIOLATION,
+ *         message: 'Signet of Undeath is not allowed in WvW builds',
+ *       });
+ *     }
+ *   },
+ * };
+ * ```
+ */
+export interface ValidationRule {
+  /** Unique rule ID, used to disable the rule */
+  id: string;
+  /** Short description of what the rule checks */
+  description?: string;
+  /**
+   * Check a build and report problems through the context
+   * @param build - The build to validate
+   * @param metadata - Metadata provider (lookups are shared between rules within one validation)
+   * @param context - Validation context
+   */
+  check(
+    build: BuildCode,
+    metadata: MetadataProvider,
+    context: ValidationRuleContext,
+  ): void | Promise<void>;
+}
+
+/** Skill bar slot kind */
+type SlotType = 'Heal' | 'Utility' | 'Elite';
+
+/** `SkillInfo.slot` values of skills that can be equipped on the skill bar */
+const SKILL_BAR_SLOTS = ['Heal', 'Utility', 'Elite'];
+
+/**
+ * Skill bar slots, terrestrial bar first
+ */
+const SKILL_SLOTS: { key: keyof Skills; type: SlotType; aquatic: boolean }[] = [
+  { key: 'heal', type: 'Heal', aquatic: false },
+  { key: 'utility1', type: 'Utility', aquatic: false },
+  { key: 'utility2', type: 'Utility', aquatic: false },
+  { key: 'utility3', type: 'Utility', aquatic: false },
+  { key: 'elite', type: 'Elite', aquatic: false },
+  { key: 'aquaticHeal', type: 'Heal', aquatic: true },
+  { key: 'aquaticUtility1', type: 'Utility', aquatic: true },
+  { key: 'aquaticUtility2', type: 'Utility', aquatic: true },
+  { key: 'aquaticUtility3', type: 'Utility', aquatic: true },
+  { key: 'aquaticElite', type: 'Elite', aquatic: true },
+];
+
+/**
+ * JSON pointer (RFC 6901) to a BuildCode field
+ */
+function pointer(...segments: (string | number)[]): string {
+  return segments
+    .map(
+      (segment) =>
+        `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`,
+    )
+    .join('');
+}
+
+/**
+ * Fix that empties a numeric field (skill slot, pet, legend, ...)
+ */
+function clearFix(description: string, path: string): ValidationFix {
+  return { description, operations: [{ op: 'replace', path, value: 0 }] };
+}
+
+/**
+ * Fix that removes an array entry (specialization, weapon, skill variant)
+ */
+function removeFix(description: string, path: string): ValidationFix {
+  return { description, operations: [{ op: 'remove', path }] };
+}
+
+/**
+ * Fix that empties a skill bar slot
+ */
+function clearSkillFix(skillId: number, slot: keyof Skills): ValidationFix {
+  return clearFix(`Remove skill ${skillId} from ${slot}`, pointer('skills', slot));
+}
+
+/**
+ * Equipped (non-empty) skill slots of a build
+ */
+function equippedSkills(build: BuildCode) {
+  return SKILL_SLOTS.map((slot) => ({
+    ...slot,
+    id: build.skills[slot.key] ?? 0,
+  })).filter((slot) => slot.id !== 0);
+}
+
+/**
+ * Start every metadata lookup the built-in rules make, in parallel
+ *
+ * Meant for a memoizing provider: the rules then read settled lookups instead
+ * of waiting for them one after another.
+ */
+export async function prefetchMetadata(
+  build: BuildCode,
+  metadata: MetadataProvider,
+  context: Pick<ValidationRuleContext, 'professionName'>,
+): Promise<void> {
+  const specific = build.professionSpecific;
+  const lookups: Promise<unknown>[] = [
+    ...equippedSkills(build).map((skill) => metadata.getSkillInfo(skill.id)),
+    ...build.specializations.map((spec) =>
+      metadata.getSpecializationInfo(spec.id),
+    ),
+  ];
+
+  if (specific?.type === 'ranger' && metadata.getPetInfo) {
+    for (const petId of [...specific.pets, ...(specific.aquaticPets ?? [])]) {
+      if (petId !== 0) {
+        lookups.push(metadata.getPetInfo(petId));
+      }
+    }
+  }
+  if (specific?.type === 'revenant' && metadata.getLegendInfo) {
+    for (const legendId of [
+      ...specific.legends,
+      ...(specific.aquaticLegends ?? []),
+    ]) {
+      if (legendId && isKnownLegend(legendId)) {
+        lookups.push(metadata.getLegendInfo(legendId));
+      }
+    }
+  }
+
+  if (build.weapons?.length && metadata.getProfessionInfo) {
+    lookups.push(metadata.getProfessionInfo(context.professionName));
+  }
+  if (metadata.getSkillVariantInfo) {
+    for (const variantId of build.skillVariants ?? []) {
+      lookups.push(metadata.getSkillVariantInfo(variantId));
+    }
+  }
+
+  await Promise.all(lookups);
+}
+
+/**
+ * Check that every equipped skill exists
+ */
+const skillExistsRule: ValidationRule = {
+  id: 'skill-exists',
+  description: 'Every equipped skill exists in the GW2 API',
+  async check(build, metadata, context) {
+    for (const skill of equippedSkills(build)) {
+      if (!(await metadata.getSkillInfo(skill.id))) {
+        context.addError({
+          type: ValidationErrorType.INVALID_SKILL_ID,
+          message: `Skill ID ${skill.id} does not exist in GW2 API`,
+          path: pointer('skills', skill.key),
+          context: { skillId: skill.id, slot: skill.key },
+          fix: clearSkillFix(skill.id, skill.key),
+        });
+      }
+    }
+  },
+};
+
+/**
+ * Check that every equipped skill can be used by the profession
+ */
+const skillProfessionRule: ValidationRule = {
+  id: 'skill-profession',
+  description: 'Every equipped skill can be used by the profession',
+  async check(build, metadata, context) {
+    const professionName = context.professionName;
+    for (const skill of equippedSkills(build)) {
+      const skillInfo = await metadata.getSkillInfo(skill.id);
+      if (skillInfo && !skillInfo.professions.includes(professionName)) {
+        context.addError({
+          type: ValidationErrorType.SKILL_NOT_FOR_PROFESSION,
+          message: `Skill "${skillInfo.name}" (${skill.id}) cannot be used by ${professionName}`,
+          path: pointer('skills', skill.key),
+          context: {
+            skillId: skill.id,
+            slot: skill.key,
+            skillName: skillInfo.name,
+            profession: professionName,
+            validProfessions: skillInfo.professions,
+          },
+          fix: clearSkillFix(skill.id, skill.key),
+        });
+      }
+    }
+  },
+};
+
+/**
+ * Check that no utility skill is equipped twice on the same bar
+ */
+const duplicateSkillsRule: ValidationRule = {
+  id: 'duplicate-skills',
+  description: 'No utility skill is equipped twice on the same bar',
+  check(build, _metadata, context) {
+    // Slot of the first occurrence of each utility skill, per bar
+    const utilitySlots = [
+      new Map<number, keyof Skills>(),
+      new Map<number, keyof Skills>(),
+    ];
+
+    for (const skill of equippedSkills(build)) {
+      if (skill.type !== 'Utility') continue;
+
+      const barSlots = utilitySlots[skill.aquatic ? 1 : 0];
+      const firstSlot = barSlots.get(skill.id);
+      if (firstSlot) {
+        context.addError({
+          type: ValidationErrorType.DUPLICATE_SKILL,
+          message: `Skill ${skill.id} is equipped in both ${firstSlot} and ${skill.key}`,
+          path: pointer('skills', skill.key),
+          context: { skillId: skill.id, slot: skill.key, firstSlot },
+          fix: clearSkillFix(skill.id, skill.key),
+        });
+      } else {
+        barSlots.set(skill.id, skill.key);
+      }
+    }
+  },
+};
+
+/**
+ * Check that equipped skills fit the slot they occupy
+ *
+ * Wrong slots are reported at two levels: a skill that can never be on the
+ * skill bar (weapon, profession, downed, ...) is a `SKILL_SLOT_MISMATCH` error,
+ * while a heal, utility or elite skill in a bar slot of another kind (e.g. an
+ * elite in `utility1`) is only a `SKILL_TYPE_MISMATCH` warning.
+ */
+const skillSlotsRule: ValidationRule = {
+  id: 'skill-slots',
+  description:
+    'Only heal, utility and elite skills are equipped (error), each in a slot of its kind (warning)',
+  async check(build, metadata, context) {
+    for (const skill of equippedSkills(build)) {
+      const skillInfo = await metadata.getSkillInfo(skill.id);
+      if (!skillInfo) continue;
+
+      if (!SKILL_BAR_SLOTS.includes(skillInfo.slot)) {
+        // Weapon, profession, downed, ... skills can never sit on the skill bar
+        context.addError({
+          type: ValidationErrorType.SKILL_SLOT_MISMATCH,
+          message: `Skill "${skillInfo.name}" (${skill.id}) is a ${skillInfo.slot} skill and cannot be equipped in the ${skill.key} slot`,
+          path: pointer('skills', skill.key),
+          context: {
+            skillId: skill.id,
+            slot: skill.key,
+            expectedSlot: skill.type,
+            actualSlot: skillInfo.slot,
+          },
+          fix: clearSkillFix(skill.id, skill.key),
+        });
+      } else if (
+        skillInfo.type !== skill.type &&
+        skillInfo.slot !== skill.type
+      ) {
+        // Heal/utility/elite skill sitting in a slot of another kind
+        context.addWarning({
+          type: ValidationWarningType.SKILL_TYPE_MISMATCH,
+          message: `Skill "${skillInfo.name}" (${skill.id}) is a ${skillInfo.type} skill but sits in the ${skill.key} slot`,
+          path: pointer('skills', skill.key),
+          context: {
+            skillId: skill.id,
+            slot: skill.key,
+            expectedType: skill.type,
+            actualType: skillInfo.type,
+          },
+        });
+      }
+    }
+  },
+};
+
+/**
+ * Check that elite specialization skills are only used with that specialization
+ */
+const skillSpecializationRule: ValidationRule = {
+  id: 'skill-specialization',
+  description:
+    'Elite specialization skills (e.g. Scourge shades) are only used with that specialization',
+  async check(build, metadata, context) {
+    const specIds = build.specializations.map((spec) => spec.id);
+
+    for (const skill of equippedSkills(build)) {
+      const skillInfo = await metadata.getSkillInfo(skill.id);
+      if (
+        skillInfo?.specialization !== undefined &&
+        !specIds.includes(skillInfo.specialization)
+      ) {
+        context.addError({
+          type: ValidationErrorType.SKILL_REQUIRES_SPECIALIZATION,
+          message: `Skill "${skillInfo.name}" (${skill.id}) requires the ${getSpecializationName(skillInfo.specialization) ?? skillInfo.specialization} specialization`,
+          path: pointer('skills', skill.key),
+          context: {
+            skillId: skill.id,
+            slot: skill.key,
+            requiredSpecializationId: skillInfo.specialization,
+          },
+          fix: clearSkillFix(skill.id, skill.key),
+        });
+      }
+    }
+  },
+};
+
+/**
+ * Check that the aquatic bar holds no skills that cannot be used underwater
+ */
+const underwaterSkillsRule: ValidationRule = {
+  id: 'underwater-skills',
+  description: 'The aquatic bar holds no skills flagged NoUnderwater',
+  async check(build, metadata, context) {
+    for (const skill of equippedSkills(build)) {
+      if (!skill.aquatic) continue;
+
+      const skillInfo = await metadata.getSkillInfo(skill.id);
+      if (skillInfo?.flags?.includes('NoUnderwater')) {
+        context.addError({
+          type: ValidationErrorType.SKILL_NOT_USABLE_UNDERWATER,
+          message: `Skill "${skillInfo.name}" (${skill.id}) cannot be used underwater`,
+          path: pointer('skills', skill.key),
+          context: { skillId: skill.id, slot: skill.key },
+          fix: clearSkillFix(skill.id, skill.key),
+        });
+      }
+    }
+  },
+};
+
+/**
+ * Warn about skills the metadata marks as deprecated
+ */
+const deprecatedSkillsRule: ValidationRule = {
+  id: 'deprecated-skills',
+  description: 'Warns about deprecated skills',
+  async check(build, metadata, context) {
+    for (const skill of equippedSkills(build)) {
+      const skillInfo = await metadata.getSkillInfo(skill.id);
+      if (skillInfo?.deprecated) {
+        context.addWarning({
+          type: ValidationWarningType.DEPRECATED_SKILL,
+          message: `Skill "${skillInfo.name}" (${skill.id}) is deprecated`,
+          path: pointer('skills', skill.key),
+          context: { skillId: skill.id, slot: skill.key },
+        });
+      }
+    }
+  },
+};
+
+/**
+ * Check that every specialization exists and belongs to the profession
+ */
+const specializationProfessionRule: ValidationRule = {
+  id: 'specialization-profession',
+  description:
+    'Every specialization exists in the GW2 API and belongs to the profession',
+  async check(build, metadata, context) {
+    const professionName = context.professionName;
+
+    for (const [index, spec] of build.specializations.entries()) {
+      const specInfo = await metadata.getSpecializationInfo(spec.id);
+
+      if (!specInfo) {
+        context.addError({
+          type: ValidationErrorType.INVALID_SPECIALIZATION_ID,
+          message: `Specialization ID ${spec.id} does not exist in GW2 API`,
+          path: pointer('specializations', index),
+          context: { specializationId: spec.id, index },
+          fix: removeFix(
+            `Remove specialization ${spec.id}`,
+            pointer('specializations', index),
+          ),
+        });
+        continue;
+      }
+
+      if (specInfo.profession !== professionName) {
+        context.addError({
+          type: ValidationErrorType.SPECIALIZATION_NOT_FOR_PROFESSION,
+          message: `Specialization "${specInfo.name}" (${spec.id}) belongs to ${specInfo.profession}, not ${professionName}`,
+          path: pointer('specializations', index),
+          context: {
+            specializationId: spec.id,
+            index,
+            specializationName: specInfo.name,
+            expectedProfession: professionName,
+            actualProfession: specInfo.profession,
+          },
+          fix: removeFix(
+            `Remove specialization ${specInfo.name}`,
+            pointer('specializations', index),
+          ),
+        });
+      }
+    }
+  },
+};
+
+/**
+ * Check that no specialization is selected twice
+ */
+const duplicateSpecializationsRule: ValidationRule = {
+  id: 'duplicate-specializations',
+  description: 'No specialization is selected twice',
+  check(build, _metadata, context) {
+    const seen = new Set<number>();
+    build.specializations.forEach((spec, index) => {
+      if (seen.has(spec.id)) {
+        context.addError({
+          type: ValidationErrorType.DUPLICATE_SPECIALIZATION,
+          message: `Specialization ${spec.id} is selected more than once`,
+          path: pointer('specializations', index),
+          context: { specializationId: spec.id, index },
+          fix: removeFix(
+            `Remove the second copy of specialization ${spec.id}`,
+            pointer('specializations', index),
+          ),
+        });
+      }
+      seen.add(spec.id);
+    });
+  },
+};
+
+/**
+ * Check that there is at most one elite specialization, in the third slot
+ */
+const eliteSpecializationRule: ValidationRule = {
+  id: 'elite-specialization',
+  description: 'At most one elite specialization, in the third slot',
+  async check(build, metadata, context) {
+    const slots = getSpecializationSlots(build);
+    const elites: { id: number; index: number }[] = [];
+
+    for (const [index, spec] of build.specializations.entries()) {
+      const specInfo = await metadata.getSpecializationInfo(spec.id);
+      if (specInfo?.elite) {
+        elites.push({ id: spec.id, index });
+      }
+    }
+
+    if (elites.length > 1) {
+      context.addError({
+        type: ValidationErrorType.MULTIPLE_ELITE_SPECIALIZATIONS,
+        message: `Build has ${elites.length} elite specializations (at most one allowed)`,
+        path: pointer('specializations'),
+        context: { specializationIds: elites.map((elite) => elite.id) },
+      });
+    }
+
+    for (const elite of elites) {
+      // Decoding drops empty lines, so without the raw specialization block an
+      // elite in the third slot is only known to be the last selected line
+      const inThirdSlot = slots
+        ? slots[elite.index] === 2
+        : elite.index === build.specializations.length - 1;
+
+      if (!inThirdSlot) {
+        context.addError({
+          type: ValidationErrorType.ELITE_SPECIALIZATION_NOT_IN_THIRD_SLOT,
+          message: `Elite specialization ${elite.id} must be in the third slot`,
+          path: pointer('specializations', elite.index),
+          context: {
+            specializationId: elite.id,
+            index: elite.index,
+            specializationSlot: slots?.[elite.index],
+          },
+          // With several elites it is unclear which one to keep
+          fix: elites.length === 1 ? moveEliteFix(build, elite) : undefined,
+        });
+      }
+    }
+  },
+};
+
+/**
+ * Fix that moves the only elite specialization into the third slot
+ */
+function moveEliteFix(
+  build: BuildCode,
+  elite: { id: number; index: number },
+): ValidationFix {
+  return {
+    description: `Move elite specialization ${elite.id} to the third slot`,
+    operations: [
+      {
+        op: 'move',
+        from: pointer('specializations', elite.index),
+        path: pointer('specializations', '-'),
+      },
+      // The raw block would otherwise keep the old slot positions
+      ...(build.unparsed?.specializationBlock
+        ? [{ op: 'remove' as const, path: pointer('unparsed', 'specializationBlock') }]
+        : []),
+    ],
+  };
+}
+
+/**
+ * Check that every selected line has a trait picked in every tier
+ */
+const traitCompletenessRule: ValidationRule = {
+  id: 'trait-completeness',
+  description: 'Every specialization has a trait selected in every tier',
+  check(build, _metadata, context) {
+    build.specializations.forEach((spec, index) => {
+      const tier = spec.traits.indexOf(TraitChoice.None);
+      if (tier !== -1) {
+        context.addError({
+          type: ValidationErrorType.INCOMPLETE_TRAITS,
+          message: `Specialization ${spec.id} does not have a trait selected in every tier`,
+          path: pointer('specializations', index, 'traits', tier),
+          context: { specializationId: spec.id, index, traits: spec.traits },
+        });
+      }
+    });
+  },
+};
+
+/**
+ * Warn about builds without an elite specialization in the third line
+ */
+const missingEliteSpecializationRule: ValidationRule = {
+  id: 'missing-elite-specialization',
+  description: 'Warns when the third line is missing or not elite',
+  async check(build, metadata, context) {
+    const thirdLine = build.specializations[2];
+    // An unknown third specialization is reported by specialization-profession
+    const thirdLineInfo = thirdLine
+      ? await metadata.getSpecializationInfo(thirdLine.id)
+      : null;
+
+    if (!thirdLine || (thirdLineInfo && !thirdLineInfo.elite)) {
+      context.addWarning({
+        type: ValidationWarningType.MISSING_ELITE_SPECIALIZATION,
+        message: thirdLine
+          ? `Third specialization line (${thirdLine.id}) is not an elite specialization`
+          : 'Build has no third specialization line, so no elite specialization',
+        path: thirdLine
+          ? pointer('specializations', 2)
+          : pointer('specializations'),
+        context: { specializationId: thirdLine?.id },
+      });
+    }
+  },
+};
+
+/**
+ * Check Ranger pet IDs
+ */
+const petsRule: ValidationRule = {
+  id: 'pets',
+  description: 'Ranger pets exist in the GW2 API',
+  async check(build, metadata, context) {
+    const ranger = build.professionSpecific;
+    if (ranger?.type !== 'ranger' || !metadata.getPetInfo) {
+      // Not a Ranger, or pet validation not supported by this metadata provider
+      return;
+    }
+
+    const petSets: ['pets' | 'aquaticPets', boolean][] = [
+      ['pets', false],
+      ['aquaticPets', true],
+    ];
+    for (const [field, aquatic] of petSets) {
+      for (const [index, petId] of (ranger[field] ?? []).entries()) {
+        if (petId === 0) continue; // Empty pet slot is valid
+
+        if (!(await metadata.getPetInfo(petId))) {
+          context.addError({
+            type: ValidationErrorType.INVALID_PET_ID,
+            message: `Pet ID ${petId} does not exist in GW2 API`,
+            path: pointer('professionSpecific', field, index),
+            context: { petId, index, aquatic },
+            fix: clearFix(
+              `Clear pet ${petId}`,
+              pointer('professionSpecific', field, index),
+            ),
+          });
+        }
+      }
+    }
+  },
+};
+
+/**
+ * Legend slots of a Revenant build, terrestrial pair first
+ */
+function legendSlots(build: BuildCode) {
+  const revenant = build.professionSpecific;
+  if (revenant?.type !== 'revenant') return [];
+
+  return [
+    {
+      field: 'legends',
+      legends: revenant.legends as (number | undefined)[],
+      aquatic: false,
+    },
+    {
+      field: 'aquaticLegends',
+      legends: revenant.aquaticLegends ?? [],
+      aquatic: true,
+    },
+  ].flatMap(({ field, legends, aquatic }) =>
+    legends
+      .map((legendId, index) => ({
+        legendId: legendId ?? 0,
+        index,
+        aquatic,
+        path: pointer('professionSpecific', field, index),
+      }))
+      .filter((slot) => slot.legendId !== 0),
+  );
+}
+
+/**
+ * Whether a legend ID is a known `Legend` value
+ */
+function isKnownLegend(legendId: number): boolean {
+  return Object.values(Legend).includes(legendId);
+}
+
+/**
+ * Check Revenant legend IDs and their elite specialization requirements
+ */
+const legendsRule: ValidationRule = {
+  id: 'legends',
+  description:
+    'Revenant legends are known, and Kalla/Alliance are used with Renegade/Vindicator',
+  check(build, _metadata, context) {
+    const specIds = build.specializations.map((spec) => spec.id);
+
+    for (const { legendId, index, aquatic, path } of legendSlots(build)) {
+      if (!isKnownLegend(legendId)) {
+        context.addError({
+          type: ValidationErrorType.INVALID_LEGEND_ID,
+          message: `Legend ID ${legendId} is not a known Revenant legend`,
+          path,
+          context: { legendId, index, aquatic },
+          fix: clearFix(`Clear legend ${legendId}`, path),
+        });
+        continue;
+      }
+
+      // Kalla and Alliance legends need their elite specialization
+      const requiredSpec = LEGEND_REQUIRED_SPECIALIZATIONS[legendId];
+      if (requiredSpec !== undefined && !specIds.includes(requiredSpec)) {
+        context.addError({
+          type: ValidationErrorType.LEGEND_REQUIRES_SPECIALIZATION,
+          message: `${LEGEND_NAMES[legendId]} requires the ${getSpecializationName(requiredSpec)} specialization`,
+          path,
+          context: {
+            legendId,
+            index,
+            aquatic,
+            requiredSpecializationId: requiredSpec,
+          },
+        });
+      }
+    }
+  },
+};
+
+/**
+ * Check that Revenant utilities belong to their legend
+ */
+const legendSkillsRule: ValidationRule = {
+  id: 'legend-skills',
+  description:
+    'Active utilities belong to the first legend and inactive skills to the second',
+  async check(build, metadata, context) {
+    const revenant = build.professionSpecific;
+    if (revenant?.type !== 'revenant' || !metadata.getLegendInfo) {
+      // Not a Revenant, or legend metadata not supported by this provider
+      return;
+    }
+
+    const getLegendInfo = async (legendId: number | undefined) =>
+      legendId && isKnownLegend(legendId) && metadata.getLegendInfo
+        ? metadata.getLegendInfo(legendId)
+        : null;
+
+    // Each set: skill IDs with their JSON pointers, the legend they belong to,
+    // and whether they are aquatic / inactive
+    const activeSkills = (keys: (keyof Skills)[]) =>
+      keys.map((key) => ({
+        skillId: build.skills[key],
+        path: pointer('skills', key),
+      }));
+    const inactiveSkills = (
+      field: 'inactiveSkills' | 'aquaticInactiveSkills',
+    ) =>
+      (revenant[field] ?? []).map((skillId, index) => ({
+        skillId,
+        path: pointer('professionSpecific', field, index),
+      }));
+
+    const terrestrialActive = await getLegendInfo(revenant.legends[0]);
+    const skillSets: [
+      { skillId: number; path: string }[],
+      LegendInfo | null,
+      boolean,
+      boolean,
+    ][] = [
+      [
+        activeSkills(['utility1', 'utility2', 'utility3']),
+        terrestrialActive,
+        false,
+        false,
+      ],
+      [
+        inactiveSkills('inactiveSkills'),
+        await getLegendInfo(revenant.legends[1]),
+        false,
+        true,
+      ],
+      [
+        activeSkills(['aquaticUtility1', 'aquaticUtility2', 'aquaticUtility3']),
+        // Without an aquatic active legend, aquatic slots use the terrestrial one
+        revenant.aquaticLegends?.[0]
+          ? await getLegendInfo(revenant.aquaticLegends[0])
+          : terrestrialActive,
+        true,
+        false,
+      ],
+      [
+        inactiveSkills('aquaticInactiveSkills'),
+        await getLegendInfo(revenant.aquaticLegends?.[1]),
+        true,
+        true,
+      ],
+    ];
+
+    for (const [skills, legendInfo, aquatic, inactive] of skillSets) {
+      if (!legendInfo) continue;
+
+      skills.forEach(({ skillId, path }, index) => {
+        if (skillId !== 0 && !legendInfo.utilities.includes(skillId)) {
+          context.addError({
+            type: ValidationErrorType.LEGEND_SKILL_MISMATCH,
+            message: `Skill ${skillId} is not a utility skill of ${legendInfo.name ?? LEGEND_NAMES[legendInfo.id] ?? `legend ${legendInfo.id}`}`,
+            path,
+            context: {
+              skillId,
+              legendId: legendInfo.id,
+              index,
+              aquatic,
+              inactive,
+            },
+            fix: clearFix(`Remove skill ${skillId}`, path),
+          });
+        }
+      });
+    }
+  },
+};
+
+/**
+ * Get the slot (0-2) of each specialization from the raw block kept by lossless decoding
+ *
+ * @returns Slots in specialization order, or undefined when no raw block is available
+ */
+function getSpecializationSlots(build: BuildCode): number[] | undefined {
+  const block = build.unparsed?.specializationBlock;
+  if (!block) return undefined;
+
+  const slots: number[] = [];
+  for (let slot = 0; slot < 3; slot++) {
+    if (block[slot * 2]) slots.push(slot);
+  }
+
+  // The block is stale if the specializations were edited after decoding
+  const ids = slots.map((slot) => block[slot * 2]);
+  const matches =
+    ids.length === build.specializations.length &&
+    ids.every((id, i) => id === build.specializations[i].id);
+  return matches ? slots : undefined;
+}
+
+/**
+ * Check equipped weapons against the profession's weapons
+ */
+const weaponsRule: ValidationRule = {
+  id: 'weapons',
+  description:
+    'Weapon types exist and can be wielded by the profession and its elite specialization',
+  async check(build, metadata, context) {
+    const weapons = build.weapons ?? [];
+    const professionInfo =
+      weapons.length > 0 && metadata.getProfessionInfo
+        ? await metadata.getProfessionInfo(context.professionName)
+        : null;
+    const specIds = build.specializations.map((spec) => spec.id);
+
+    for (const [index, weaponId] of weapons.entries()) {
+      const weaponName = WEAPON_TYPE_NAMES[weaponId];
+      if (!weaponName) {
+        context.addError({
+          type: ValidationErrorType.INVALID_WEAPON_TYPE,
+          message: `Weapon type ${weaponId} is not a known weapon type`,
+          path: pointer('weapons', index),
+          context: { weaponId, index },
+          fix: removeFix(`Remove weapon ${weaponId}`, pointer('weapons', index)),
+        });
+        continue;
+      }
+
+      // Profession checks need weapon metadata from the provider
+      if (!professionInfo) continue;
+
+      const weaponInfo = professionInfo.weapons[weaponName];
+      if (!weaponInfo) {
+        context.addError({
+          type: ValidationErrorType.WEAPON_NOT_FOR_PROFESSION,
+          message: `${context.professionName} cannot wield a ${weaponName}`,
+          path: pointer('weapons', index),
+          context: { weaponId, weaponName, index },
+          fix: removeFix(`Remove ${weaponName}`, pointer('weapons', index)),
+        });
+      } else if (
+        weaponInfo.specialization &&
+        !specIds.includes(weaponInfo.specialization)
+      ) {
+        const specName =
+          getSpecializationName(weaponInfo.specialization) ??
+          `specialization ${weaponInfo.specialization}`;
+        context.addError({
+          type: ValidationErrorType.WEAPON_REQUIRES_SPECIALIZATION,
+          message: `${context.professionName} ${weaponName} requires ${specName}`,
+          path: pointer('weapons', index),
+          context: {
+            weaponId,
+            weaponName,
+            index,
+            requiredSpecializationId: weaponInfo.specialization,
+          },
+          fix: removeFix(`Remove ${weaponName}`, pointer('weapons', index)),
+        });
+      }
+    }
+  },
+};
+
+/**
+ * Check that skill variants exist and replace a skill on the bar
+ */
+const skillVariantsRule: ValidationRule = {
+  id: 'skill-variants',
+  description: 'Skill variants exist and replace a skill that is on the bar',
+  async check(build, metadata, context) {
+    if (!build.skillVariants?.length || !metadata.getSkillVariantInfo) {
+      // No variants, or variant validation not supported by this metadata provider
+      return;
+    }
+
+    const equipped = equippedSkills(build).map((skill) => skill.id);
+    for (const [index, variantId] of build.skillVariants.entries()) {
+      const variantInfo = await metadata.getSkillVariantInfo(variantId);
+      if (!variantInfo) {
+        context.addError({
+          type: ValidationErrorType.INVALID_SKILL_VARIANT,
+          message: `Skill variant ${variantId} does not exist in GW2 API`,
+          path: pointer('skillVariants', index),
+          context: { variantId, index },
+          fix: removeFix(
+            `Remove skill variant ${variantId}`,
+            pointer('skillVariants', index),
+          ),
+        });
+      } else if (!equipped.includes(variantInfo.baseSkill)) {
+        context.addError({
+          type: ValidationErrorType.SKILL_VARIANT_NOT_ON_BAR,
+          message: `Skill variant ${variantInfo.name ?? variantId} replaces skill ${variantInfo.baseSkill}, which is not on the skill bar`,
+          path: pointer('skillVariants', index),
+          context: { variantId, index, skillId: variantInfo.baseSkill },
+          fix: removeFix(
+            `Remove skill variant ${variantId}`,
+            pointer('skillVariants', index),
+          ),
+        });
+      }
+    }
+  },
+};
+
+/**
+ * Built-in rules, in the order they run
+ */
+export const DEFAULT_RULES: readonly ValidationRule[] = [
+  skillExistsRule,
+  skillProfessionRule,
+  duplicateSkillsRule,
+  skillSlotsRule,
+  skillSpecializationRule,
+  underwaterSkillsRule,
+  deprecatedSkillsRule,
+  specializationProfessionRule,
+  duplicateSpecializationsRule,
+  eliteSpecializationRule,
+  traitCompletenessRule,
+  missingEliteSpecializationRule,
+  petsRule,
+  legendsRule,
+  legendSkillsRule,
+  weaponsRule,
+  skillVariantsRule,
+];
@@ -2,6 +2,8 @@
  * Types for build validation against GW2 API
  */
 
+import type { Skills, TraitChoice } from './types.js';
+
 export interface ValidationResult {
   /** Whether the build passed all validation checks */
   valid: boolean;
@@ -9,26 +11,103 @@ export interface ValidationResult {
   errors: ValidationError[];
   /** Warnings about potential issues */
   warnings: ValidationWarning[];
+  /** Fixes of all errors, then all warnings (only with the `suggestFixes` validator option) */
+  fixes?: ValidationFix[];
 }
 
-export interface ValidationError {
-  /** Type of validation error */
-  type: ValidationErrorType;
-  /** Human-readable error message */
+/** Severity of a validation issue */
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * Fields shared by every validation issue
+ */
+interface ValidationIssueBase<T extends string> {
+  /** Type of the issue */
+  type: T;
+  /** Human-readable message */
   message: string;
-  /** Additional context (skill ID, spec ID, etc.) */
-  context?: Record<string, unknown>;
+  /**
+   * JSON pointer (RFC 6901) to the offending BuildCode field,
+   * e.g. `/skills/utility2` or `/professionSpecific/pets/1` (`''` for the whole build)
+   */
+  path: string;
+  /** Suggested repair (only with the `suggestFixes` validator option) */
+  fix?: ValidationFix;
 }
 
-export interface ValidationWarning {
-  /** Type of validation warning */
-  type: ValidationWarningType;
-  /** Human-readable warning message */
-  message: string;
-  /** Additional context */
-  context?: Record<string, unknown>;
+/**
+ * One step of a fix, as a JSON Patch (RFC 6902) operation
+ *
+ * Paths are JSON pointers into the validated build. See `applyFixes` for how
+ * several operations on the same array combine.
+ */
+export type FixOperation =
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'move'; from: string; path: string };
+
+/**
+ * Suggested repair for a validation issue
+ */
+export interface ValidationFix {
+  /** Human-readable description (e.g. "Clear utility2") */
+  description: string;
+  /** Operations that apply the fix */
+  operations: FixOperation[];
 }
 
+/** `context` is optional for issue types whose context type allows undefined */
+type IssueContext<C> = undefined extends C ? { context?: C } : { context: C };
+
+/**
+ * Issues as reported by a rule; BuildValidator adds `severity` and `ruleId`,
+ * and `path` defaults to the whole build
+ */
+type IssueReport<T extends string, C> = Omit<ValidationIssueBase<T>, 'path'> & {
+  path?: string;
+} & IssueContext<C>;
+
+/**
+ * Critical error that makes the build invalid
+ *
+ * Narrow on `type` to get the typed `context` of that error.
+ */
+export type ValidationError = {
+  [T in ValidationErrorType]: ValidationIssueBase<T> &
+    IssueContext<ValidationErrorContexts[T]> & {
+      severity: 'error';
+      /** ID of the rule that reported the error */
+      ruleId: string;
+    };
+}[ValidationErrorType];
+
+/**
+ * Warning about a potential issue (does not affect `valid`)
+ *
+ * Narrow on `type` to get the typed `context` of that warning.
+ */
+export type ValidationWarning = {
+  [T in ValidationWarningType]: ValidationIssueBase<T> &
+    IssueContext<ValidationWarningContexts[T]> & {
+      severity: 'warning';
+      /** ID of the rule that reported the warning */
+      ruleId: string;
+    };
+}[ValidationWarningType];
+
+/** Any validation error or warning */
+export type ValidationIssue = ValidationError | ValidationWarning;
+
+/** Error as passed to `ValidationRuleContext.addError` */
+export type ValidationErrorReport = {
+  [T in ValidationErrorType]: IssueReport<T, ValidationErrorContexts[T]>;
+}[ValidationErrorType];
+
+/** Warning as passed to `ValidationRuleContext.addWarning` */
+export type ValidationWarningReport = {
+  [T in ValidationWarningType]: IssueReport<T, ValidationWarningContexts[T]>;
+}[ValidationWarningType];
+
 export enum ValidationErrorType {
   INVALID_SKILL_ID = 'INVALID_SKILL_ID',
   INVALID_SPECIALIZATION_ID = 'INVALID_SPECIALIZATION_ID',
@@ -36,12 +115,168 @@ export enum ValidationErrorType {
   INVALID_PET_ID = 'INVALID_PET_ID',
   INVALID_LEGEND_ID = 'INVALID_LEGEND_ID',
   SKILL_NOT_FOR_PROFESSION = 'SKILL_NOT_FOR_PROFESSION',
+  LEGEND_SKILL_MISMATCH = 'LEGEND_SKILL_MISMATCH',
+  LEGEND_REQUIRES_SPECIALIZATION = 'LEGEND_REQUIRES_SPECIALIZATION',
+  DUPLICATE_SPECIALIZATION = 'DUPLICATE_SPECIALIZATION',
+  MULTIPLE_ELITE_SPECIALIZATIONS = 'MULTIPLE_ELITE_SPECIALIZATIONS',
+  ELITE_SPECIALIZATION_NOT_IN_THIRD_SLOT = 'ELITE_SPECIALIZATION_NOT_IN_THIRD_SLOT',
+  INCOMPLETE_TRAITS = 'INCOMPLETE_TRAITS',
+  DUPLICATE_SKILL = 'DUPLICATE_SKILL',
+  SKILL_SLOT_MISMATCH = 'SKILL_SLOT_MISMATCH',
+  SKILL_REQUIRES_SPECIALIZATION = 'SKILL_REQUIRES_SPECIALIZATION',
+  SKILL_NOT_USABLE_UNDERWATER = 'SKILL_NOT_USABLE_UNDERWATER',
+  INVALID_WEAPON_TYPE = 'INVALID_WEAPON_TYPE',
+  WEAPON_NOT_FOR_PROFESSION = 'WEAPON_NOT_FOR_PROFESSION',
+  WEAPON_REQUIRES_SPECIALIZATION = 'WEAPON_REQUIRES_SPECIALIZATION',
+  INVALID_SKILL_VARIANT = 'INVALID_SKILL_VARIANT',
+  SKILL_VARIANT_NOT_ON_BAR = 'SKILL_VARIANT_NOT_ON_BAR',
+  /** Reported by custom validation rules */
+  RULE_VIOLATION = 'RULE_VIOLATION',
 }
 
 export enum ValidationWarningType {
   DEPRECATED_SKILL = 'DEPRECATED_SKILL',
   SKILL_TYPE_MISMATCH = 'SKILL_TYPE_MISMATCH',
   MISSING_ELITE_SPECIALIZATION = 'MISSING_ELITE_SPECIALIZATION',
+  /** Reported by custom validation rules */
+  RULE_VIOLATION = 'RULE_VIOLATION',
+}
+
+/** Context of issues about an equipped skill */
+export interface SkillIssueContext {
+  /** Skill ID */
+  skillId: number;
+  /** Skill bar slot */
+  slot: keyof Skills;
+}
+
+/** Context of issues about a selected specialization */
+export interface SpecializationIssueContext {
+  /** Specialization ID */
+  specializationId: number;
+  /** Index in `BuildCode.specializations` */
+  index: number;
+}
+
+/** Context of issues about a Ranger pet */
+export interface PetIssueContext {
+  /** Pet ID */
+  petId: number;
+  /** Index in `pets` or `aquaticPets` */
+  index: number;
+  /** Whether the pet is in `aquaticPets` */
+  aquatic: boolean;
+}
+
+/** Context of issues about a Revenant legend */
+export interface LegendIssueContext {
+  /** Legend ID */
+  legendId: number;
+  /** Index in `legends` or `aquaticLegends` */
+  index: number;
+  /** Whether the legend is in `aquaticLegends` */
+  aquatic: boolean;
+}
+
+/** Context of issues about an equipped weapon */
+export interface WeaponIssueContext {
+  /** Weapon type ID */
+  weaponId: number;
+  /** Index in `BuildCode.weapons` */
+  index: number;
+}
+
+/** Context of issues about a skill variant */
+export interface SkillVariantIssueContext {
+  /** Skill ID of the variant */
+  variantId: number;
+  /** Index in `BuildCode.skillVariants` */
+  index: number;
+}
+
+/**
+ * Context type of each error type
+ */
+export interface ValidationErrorContexts {
+  [ValidationErrorType.INVALID_SKILL_ID]: SkillIssueContext;
+  [ValidationErrorType.INVALID_SPECIALIZATION_ID]: SpecializationIssueContext;
+  [ValidationErrorType.SPECIALIZATION_NOT_FOR_PROFESSION]: SpecializationIssueContext & {
+    specializationName: string;
+    expectedProfession: string;
+    actualProfession: string;
+  };
+  [ValidationErrorType.INVALID_PET_ID]: PetIssueContext;
+  [ValidationErrorType.INVALID_LEGEND_ID]: LegendIssueContext;
+  [ValidationErrorType.SKILL_NOT_FOR_PROFESSION]: SkillIssueContext & {
+    skillName: string;
+    profession: string;
+    validProfessions: string[];
+  };
+  [ValidationErrorType.LEGEND_SKILL_MISMATCH]: {
+    skillId: number;
+    legendId: number;
+    /** Index in the legend's utilities (active) or in `inactiveSkills`/`aquaticInactiveSkills` */
+    index: number;
+    aquatic: boolean;
+    /** Whether the skill belongs to the inactive legend */
+    inactive: boolean;
+  };
+  [ValidationErrorType.LEGEND_REQUIRES_SPECIALIZATION]: LegendIssueContext & {
+    requiredSpecializationId: number;
+  };
+  [ValidationErrorType.DUPLICATE_SPECIALIZATION]: SpecializationIssueContext;
+  [ValidationErrorType.MULTIPLE_ELITE_SPECIALIZATIONS]: {
+    specializationIds: number[];
+  };
+  [ValidationErrorType.ELITE_SPECIALIZATION_NOT_IN_THIRD_SLOT]: SpecializationIssueContext & {
+    /** Specialization slot (0-2), when known from lossless decoding */
+    specializationSlot?: number;
+  };
+  [ValidationErrorType.INCOMPLETE_TRAITS]: SpecializationIssueContext & {
+    traits: TraitChoice[];
+  };
+  [ValidationErrorType.DUPLICATE_SKILL]: SkillIssueContext & {
+    /** Slot holding the first copy of the skill */
+    firstSlot: keyof Skills;
+  };
+  [ValidationErrorType.SKILL_SLOT_MISMATCH]: SkillIssueContext & {
+    expectedSlot: string;
+    actualSlot: string;
+  };
+  [ValidationErrorType.SKILL_REQUIRES_SPECIALIZATION]: SkillIssueContext & {
+    requiredSpecializationId: number;
+  };
+  [ValidationErrorType.SKILL_NOT_USABLE_UNDERWATER]: SkillIssueContext;
+  [ValidationErrorType.INVALID_WEAPON_TYPE]: WeaponIssueContext;
+  [ValidationErrorType.WEAPON_NOT_FOR_PROFESSION]: WeaponIssueContext & {
+    weaponName: string;
+  };
+  [ValidationErrorType.WEAPON_REQUIRES_SPECIALIZATION]: WeaponIssueContext & {
+    weaponName: string;
+    requiredSpecializationId: number;
+  };
+  [ValidationErrorType.INVALID_SKILL_VARIANT]: SkillVariantIssueContext;
+  [ValidationErrorType.SKILL_VARIANT_NOT_ON_BAR]: SkillVariantIssueContext & {
+    /** Skill the variant replaces */
+    skillId: number;
+  };
+  [ValidationErrorType.RULE_VIOLATION]: Record<string, unknown> | undefined;
+}
+
+/**
+ * Context type of each warning type
+ */
+export interface ValidationWarningContexts {
+  [ValidationWarningType.DEPRECATED_SKILL]: SkillIssueContext;
+  [ValidationWarningType.SKILL_TYPE_MISMATCH]: SkillIssueContext & {
+    expectedType: string;
+    actualType: string;
+  };
+  [ValidationWarningType.MISSING_ELITE_SPECIALIZATION]: {
+    /** ID of the third line, when there is one */
+    specializationId?: number;
+  };
+  [ValidationWarningType.RULE_VIOLATION]: Record<string, unknown> | undefined;
 }
 
 export interface SkillInfo {
@@ -55,6 +290,12 @@ export interface SkillInfo {
   type: string;
   /** Skill slot */
   slot: string;
+  /** Whether the skill has been removed or replaced in-game */
+  deprecated?: boolean;
+  /** Elite specialization required to equip the skill */
+  specialization?: number;
+  /** Skill flags from the GW2 API (e.g. `NoUnderwater`) */
+  flags?: string[];
 }
 
 export interface SpecializationInfo {
@@ -68,6 +309,42 @@ export interface SpecializationInfo {
   elite: boolean;
 }
 
+export interface LegendInfo {
+  /** Legend ID (build template code) */
+  id: number;
+  /** Legend name */
+  name?: string;
+  /** Heal skill ID */
+  heal: number;
+  /** Utility skill IDs */
+  utilities: number[];
+  /** Elite skill ID */
+  elite: number;
+}
+
+export interface WeaponInfo {
+  /** Elite specialization that unlocks the weapon (absent for core weapons) */
+  specialization?: number;
+  /** Weapon flags from the GW2 API (e.g. `Mainhand`, `TwoHand`, `Aquatic`) */
+  flags?: string[];
+}
+
+export interface ProfessionInfo {
+  /** Profession name (e.g. "Necromancer") */
+  name: string;
+  /** Weapons the profession can wield, keyed by weapon type name (e.g. "Greatsword") */
+  weapons: Record<string, WeaponInfo>;
+}
+
+export interface SkillVariantInfo {
+  /** Skill ID of the variant */
+  id: number;
+  /** Variant name */
+  name?: string;
+  /** Skill ID the variant replaces on the skill bar */
+  baseSkill: number;
+}
+
 export interface PetInfo {
   /** Pet ID */
   id: number;
@@ -2,15 +2,23 @@
  * Build validation against GW2 API
  */
 
-import type { BuildCode, Profession } from './types.js';
+import { PROFESSION_NAMES } from './constants.js';
+import type { BuildCode } from './types.js';
+import { DEFAULT_RULES, prefetchMetadata } from './validation-rules.js';
+import type {
+  ValidationRule,
+  ValidationRuleContext,
+} from './validation-rules.js';
 import type {
   ValidationResult,
   ValidationError,
   ValidationWarning,
   SkillInfo,
   SpecializationInfo,
+  LegendInfo,
+  ProfessionInfo,
+  SkillVariantInfo,
 } from './validation-types.js';
-import { ValidationErrorType } from './validation-types.js';
 
 /**
  * Interface for accessing GW2 API metadata
@@ -37,6 +45,41 @@ export interface MetadataProvider {
    * @returns Promise resolving to pet info, or null if not found
    */
   getPetInfo?(petId: number): Promise<{ id: number; name: string } | null>;
+
+  /**
+   * Get legend information (for Revenants)
+   * @param legendId - The legend ID to look up
+   * @returns Promise resolving to legend info, or null if not found
+   */
+  getLegendInfo?(legendId: number): Promise<LegendInfo | null>;
+
+  /**
+   * Get profession information, including its weapons
+   * @param profession - The profession name (e.g. "Necromancer")
+   * @returns Promise resolving to profession info, or null if not found
+   */
+  getProfessionInfo?(profession: string): Promise<ProfessionInfo | null>;
+
+  /**
+   * Get skill variant information
+   * @param variantId - The skill ID of the variant
+   * @returns Promise resolving to variant info, or null if the ID is not a skill variant
+   */
+  getSkillVariantInfo?(variantId: number): Promise<SkillVariantInfo | null>;
+}
+
+/**
+ * Options for BuildValidator
+ */
+export interface BuildValidatorOptions {
+  /** Custom rules, run after the built-in rules */
+  rules?: ValidationRule[];
+  /** IDs of rules to skip (built-in or custom) */
+  disabledRules?: string[];
+  /** Set to false to run only the custom rules (default: true) */
+  defaultRules?: boolean;
+  /** Attach suggested fixes to issues and collect them in `ValidationResult.fixes` (default: false) */
+  suggestFixes?: boolean;
 }
 
 /**
@@ -46,6 +89,9 @@ export interface MetadataProvider {
  * specialization IDs, and profession-specific data are valid according
  * to the official GW2 API.
  *
+ * Every check is a {@link ValidationRule}; the built-in rules can be disabled
+ * one by one and custom rules added next to them.
+ *
  * @example
  * ```typescript
  * const validator = new BuildValidator(paletteMapper);
@@ -58,184 +104,159 @@ export interface MetadataProvider {
  * ```
  */
 export class BuildValidator {
-  constructor(private metadataProvider: MetadataProvider) {}
+  private readonly rules: ValidationRule[];
+  private readonly disabledRules: Set<string>;
+  private readonly suggestFixes: boolean;
+
+  constructor(
+    private metadataProvider: MetadataProvider,
+    options: BuildValidatorOptions = {},
+  ) {
+    this.rules = [
+      ...(options.defaultRules === false ? [] : DEFAULT_RULES),
+      ...(options.rules ?? []),
+    ];
+    this.disabledRules = new Set(options.disabledRules);
+    this.suggestFixes = options.suggestFixes ?? false;
+  }
 
   /**
-   * Validate a complete build
-   * @param build - The build to validate
-   * @returns Promise resolving to validation result
+   * Register a rule (runs after the rules already registered)
+   * @throws {Error} If a rule with the same ID is already registered
    */
-  async validate(build: BuildCode): Promise<ValidationResult> {
-    const errors: ValidationError[] = [];
-    const warnings: ValidationWarning[] = [];
-
-    // Validate skills
-    const skillErrors = await this.validateSkills(build);
-    errors.push(...skillErrors);
-
-    // Validate specializations
-    const specErrors = await this.validateSpecializations(build);
-    errors.push(...specErrors);
-
-    // Validate profession-specific data
-    if (build.professionSpecific) {
-      if (build.professionSpecific.type === 'ranger') {
-        const petErrors = await this.validatePets(build.professionSpecific.pets);
-        errors.push(...petErrors);
-      }
-      // TODO: Validate Revenant legends when API supports it
+  addRule(rule: ValidationRule): this {
+    if (this.rules.some((existing) => existing.id === rule.id)) {
+      throw new Error(`Validation rule "${rule.id}" is already registered`);
     }
-
-    return {
-      valid: errors.length === 0,
-      errors,
-      warnings,
-    };
+    this.rules.push(rule);
+    return this;
   }
 
   /**
-   * Validate all skills in a build
+   * Skip a rule by ID
    */
-  private async validateSkills(build: BuildCode): Promise<ValidationError[]> {
-    const errors: ValidationError[] = [];
-    const professionName = this.getProfessionName(build.profession);
-
-    // Check all terrestrial skills
-    const terrestrialSkills = [
-      { id: build.skills.heal, slot: 'heal' },
-      { id: build.skills.utility1, slot: 'utility1' },
-      { id: build.skills.utility2, slot: 'utility2' },
-      { id: build.skills.utility3, slot: 'utility3' },
-      { id: build.skills.elite, slot: 'elite' },
-    ];
-
-    // Check all aquatic skills
-    const aquaticSkills = [
-      { id: build.skills.aquaticHeal, slot: 'aquaticHeal' },
-      { id: build.skills.aquaticUtility1, slot: 'aquaticUtility1' },
-      { id: build.skills.aquaticUtility2, slot: 'aquaticUtility2' },
-      { id: build.skills.aquaticUtility3, slot: 'aquaticUtility3' },
-      { id: build.skills.aquaticElite, slot: 'aquaticElite' },
-    ];
-
-    for (const skill of [...terrestrialSkills, ...aquaticSkills]) {
-      if (skill.id === 0) continue; // Skip empty slots
-
-      const skillInfo = await this.metadataProvider.getSkillInfo(skill.id);
-
-      if (!skillInfo) {
-        errors.push({
-          type: ValidationErrorType.INVALID_SKILL_ID,
-          message: `Skill ID ${skill.id} does not exist in GW2 API`,
-          context: { skillId: skill.id, slot: skill.slot },
-        });
-        continue;
-      }
-
-      // Verify skill can be used by this profession
-      if (!skillInfo.professions.includes(professionName)) {
-        errors.push({
-          type: ValidationErrorType.SKILL_NOT_FOR_PROFESSION,
-          message: `Skill "${skillInfo.name}" (${skill.id}) cannot be used by ${professionName}`,
-          context: {
-            skillId: skill.id,
-            skillName: skillInfo.name,
-            profession: professionName,
-            validProfessions: skillInfo.professions,
-          },
-        });
-      }
-    }
-
-    return errors;
+  disableRule(ruleId: string): this {
+    this.disabledRules.add(ruleId);
+    return this;
   }
 
   /**
-   * Validate specializations
+   * Re-enable a previously disabled rule
    */
-  private async validateSpecializations(
-    build: BuildCode,
-  ): Promise<ValidationError[]> {
-    const errors: ValidationError[] = [];
-    const professionName = this.getProfessionName(build.profession);
-
-    for (const spec of build.specializations) {
-      const specInfo =
-        await this.metadataProvider.getSpecializationInfo(spec.id);
-
-      if (!specInfo) {
-        errors.push({
-          type: ValidationErrorType.INVALID_SPECIALIZATION_ID,
-          message: `Specialization ID ${spec.id} does not exist in GW2 API`,
-          context: { specializationId: spec.id },
-        });
-        continue;
-      }
-
-      // Verify specialization belongs to this profession
-      if (specInfo.profession !== professionName) {
-        errors.push({
-          type: ValidationErrorType.SPECIALIZATION_NOT_FOR_PROFESSION,
-          message: `Specialization "${specInfo.name}" (${spec.id}) belongs to ${specInfo.profession}, not ${professionName}`,
-          context: {
-            specializationId: spec.id,
-            specializationName: specInfo.name,
-            expectedProfession: professionName,
-            actualProfession: specInfo.profession,
-          },
-        });
-      }
-    }
+  enableRule(ruleId: string): this {
+    this.disabledRules.delete(ruleId);
+    return this;
+  }
 
-    return errors;
+  /**
+   * Get the rules that run on `validate`, in order
+   */
+  getRules(): ValidationRule[] {
+    return this.rules.filter((rule) => !this.disabledRules.has(rule.id));
   }
 
   /**
-   * Validate Ranger pets
+   * Validate a complete build
+   * @param build - The build to validate
+   * @param data - Extra data passed to rules as `context.data` (e.g. `{ mode: 'wvw' }`)
+   * @returns Promise resolving to validation result
    */
-  private async validatePets(
-    pets: [number, number],
-  ): Promise<ValidationError[]> {
+  async validate(
+    build: BuildCode,
+    data: Record<string, unknown> = {},
+  ): Promise<ValidationResult> {
     const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
 
-    if (!this.metadataProvider.getPetInfo) {
-      // Pet validation not supported by this metadata provider
-      return errors;
-    }
-
-    for (let i = 0; i < pets.length; i++) {
-      const petId = pets[i];
-      if (petId === 0) continue; // Empty pet slot is valid
+    // Rules look up the same skills and specializations; share the lookups
+    const metadata = memoizeMetadata(this.metadataProvider);
+    const professionName = PROFESSION_NAMES[build.profession] ?? 'Unknown';
 
-      const petInfo = await this.metadataProvider.getPetInfo(petId);
+    const rules = this.getRules();
+    if (rules.some((rule) => DEFAULT_RULES.includes(rule))) {
+      await prefetchMetadata(build, metadata, { professionName });
+    }
 
-      if (!petInfo) {
-        errors.push({
-          type: ValidationErrorType.INVALID_PET_ID,
-          message: `Pet ID ${petId} does not exist in GW2 API`,
-          context: { petId, petSlot: i },
-        });
-      }
+    for (const rule of rules) {
+      const context: ValidationRuleContext = {
+        professionName,
+        data,
+        addError: (report) => {
+          const error: ValidationError = {
+            ...report,
+            path: report.path ?? '',
+            severity: 'error',
+            ruleId: rule.id,
+          };
+          if (!this.suggestFixes || !error.fix) {
+            delete error.fix;
+          }
+          errors.push(error);
+        },
+        addWarning: (report) => {
+          const warning: ValidationWarning = {
+            ...report,
+            path: report.path ?? '',
+            severity: 'warning',
+            ruleId: rule.id,
+          };
+          if (!this.suggestFixes || !warning.fix) {
+            delete warning.fix;
+          }
+          warnings.push(warning);
+        },
+      };
+      await rule.check(build, metadata, context);
     }
 
-    return errors;
+    const result: ValidationResult = {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+    };
+    if (this.suggestFixes) {
+      result.fixes = [...errors, ...warnings].flatMap((issue) =>
+        issue.fix ? [issue.fix] : [],
+      );
+    }
+    return result;
   }
+}
 
-  /**
-   * Get profession name from ID
-   */
-  private getProfessionName(profession: Profession): string {
-    const names: Record<number, string> = {
-      1: 'Guardian',
-      2: 'Warrior',
-      3: 'Engineer',
-      4: 'Ranger',
-      5: 'Thief',
-      6: 'Elementalist',
-      7: 'Mesmer',
-      8: 'Necromancer',
-      9: 'Revenant',
+/**
+ * Wrap a metadata provider so each ID is looked up at most once
+ *
+ * Other members of the provider stay reachable through the prototype, so
+ * custom rules can still call provider-specific methods.
+ */
+function memoizeMetadata(provider: MetadataProvider): MetadataProvider {
+  const memoize = <K, T>(
+    lookup: (id: K) => Promise<T>,
+  ): ((id: K) => Promise<T>) => {
+    const results = new Map<K, Promise<T>>();
+    return (id) => {
+      let result = results.get(id);
+      if (!result) {
+        result = lookup(id);
+        results.set(id, result);
+      }
+      return result;
     };
-    return names[profession] || 'Unknown';
-  }
+  };
+
+  return Object.assign(Object.create(provider) as MetadataProvider, {
+    getSkillInfo: memoize((id: number) => provider.getSkillInfo(id)),
+    getSpecializationInfo: memoize((id: number) =>
+      provider.getSpecializationInfo(id),
+    ),
+    getPetInfo: provider.getPetInfo && memoize(provider.getPetInfo.bind(provider)),
+    getLegendInfo:
+      provider.getLegendInfo && memoize(provider.getLegendInfo.bind(provider)),
+    getProfessionInfo:
+      provider.getProfessionInfo &&
+      memoize(provider.getProfessionInfo.bind(provider)),
+    getSkillVariantInfo:
+      provider.getSkillVariantInfo &&
+      memoize(provider.getSkillVariantInfo.bind(provider)),
+  });
 }
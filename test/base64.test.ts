@@ -0,0 +1,50 @@
+/**
+ * Tests for the runtime-neutral base64 codec
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { decodeBase64, encodeBase64 } from '../src/base64.js';
+import { decode } from '../src/decoder.js';
+import { encode } from '../src/encoder.js';
+import { OFFICIAL_CODES, MockPaletteMapper } from './fixtures.js';
+
+const mockMapper = new MockPaletteMapper();
+
+describe('base64', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should match Node Buffer output for every length up to 64 bytes', () => {
+    for (let length = 0; length <= 64; length++) {
+      const bytes = Uint8Array.from({ length }, (_, i) => (i * 37 + length) & 0xff);
+      const expected = Buffer.from(bytes).toString('base64');
+
+      expect(encodeBase64(bytes)).toBe(expected);
+      expect(Array.from(decodeBase64(expected))).toEqual(Array.from(bytes));
+    }
+  });
+
+  it('should decode unpadded and URL-safe input like Buffer does', () => {
+    const input = 'DQg1KTIl-_8';
+
+    expect(Array.from(decodeBase64(input))).toEqual(
+      Array.from(Buffer.from(input, 'base64')),
+    );
+  });
+
+  it('should skip characters outside the alphabet', () => {
+    expect(Array.from(decodeBase64('DQ g1\nKTI='))).toEqual([
+      0x0d, 0x08, 0x35, 0x29, 0x32,
+    ]);
+  });
+
+  it('should decode and encode without Node Buffer', async () => {
+    vi.stubGlobal('Buffer', undefined);
+
+    const chatLink = OFFICIAL_CODES.fullNecro.chatLink;
+    const build = await decode(chatLink, mockMapper);
+
+    expect(await encode(build, mockMapper)).toBe(chatLink);
+  });
+});
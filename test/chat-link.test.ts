@@ -0,0 +1,254 @@
+/**
+ * Tests for the generic chat link codecs
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ChatLinkRegistry,
+  DEFAULT_CHAT_LINK_CODECS,
+  decodeChatLink,
+  encodeChatLink,
+} from '../src/chat-link.js';
+import type { ChatLink } from '../src/chat-link.js';
+import { BuildCodeError, BuildCodeErrorCode } from '../src/errors.js';
+import { OFFICIAL_CODES } from './fixtures.js';
+
+const LINKS: [string, ChatLink][] = [
+  ['[&AgH1WQAA]', { type: 'item', id: 23029, quantity: 1 }],
+  ['[&BDgAAAA=]', { type: 'map', id: 56 }],
+  ['[&BucCAAA=]', { type: 'skill', id: 743 }],
+  ['[&B/IDAAA=]', { type: 'trait', id: 1010 }],
+  ['[&CQcAAAA=]', { type: 'recipe', id: 7 }],
+  ['[&CgEAAAA=]', { type: 'skin', id: 1 }],
+  ['[&CwQAAAA=]', { type: 'outfit', id: 4 }],
+  ['[&DAYAAAAmAAAA]', { type: 'wvwObjective', objectiveId: 6, mapId: 38 }],
+];
+
+function codeOf(fn: () => unknown): BuildCodeErrorCode | undefined {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof BuildCodeError) return error.code;
+    throw error;
+  }
+  return undefined;
+}
+
+describe('decodeChatLink', () => {
+  it.each(LINKS)('should decode %s', (chatLink, expected) => {
+    expect(decodeChatLink(chatLink)).toEqual(expected);
+  });
+
+  it('should narrow on the link type', () => {
+    const link = decodeChatLink('[&DAYAAAAmAAAA]');
+
+    expect(link.type === 'wvwObjective' && `${link.mapId}-${link.objectiveId}`).toBe(
+      '38-6',
+    );
+  });
+
+  it('should accept links without the [& ] wrapper', () => {
+    expect(decodeChatLink('BucCAAA=')).toEqual({ type: 'skill', id: 743 });
+  });
+
+  it('should reject build templates and unknown types with INVALID_TYPE', () => {
+    expect(codeOf(() => decodeChatLink(OFFICIAL_CODES.fullNecro.chatLink))).toBe(
+      BuildCodeErrorCode.INVALID_TYPE,
+    );
+    expect(() => decodeChatLink(OFFICIAL_CODES.fullNecro.chatLink)).toThrow(
+      /use decode\(\)/,
+    );
+    expect(codeOf(() => decodeChatLink('[&AdsnAAA=]'))).toBe(
+      BuildCodeErrorCode.INVALID_TYPE,
+    );
+  });
+
+  it('should reject truncated and empty links with INVALID_LENGTH', () => {
+    expect(codeOf(() => decodeChatLink('[&BucC]'))).toBe(
+      BuildCodeErrorCode.INVALID_LENGTH,
+    );
+    expect(codeOf(() => decodeChatLink('[&DAYAAAAm]'))).toBe(
+      BuildCodeErrorCode.INVALID_LENGTH,
+    );
+    expect(codeOf(() => decodeChatLink('[&]'))).toBe(
+      BuildCodeErrorCode.INVALID_LENGTH,
+    );
+  });
+
+  it('should reject trailing bytes only in strict mode', () => {
+    const link = '[&BucCAAAA]';
+
+    expect(decodeChatLink(link)).toEqual({ type: 'skill', id: 743 });
+    expect(codeOf(() => decodeChatLink(link, { strict: true }))).toBe(
+      BuildCodeErrorCode.TRAILING_DATA,
+    );
+  });
+});
+
+describe('encodeChatLink', () => {
+  it.each(LINKS)('should encode %s', (chatLink, link) => {
+    expect(encodeChatLink(link)).toBe(chatLink);
+  });
+
+  it('should reject values that do not fit the link format', () => {
+    expect(codeOf(() => encodeChatLink({ type: 'skill', id: -1 }))).toBe(
+      BuildCodeErrorCode.INVALID_CHAT_LINK_FIELD,
+    );
+    expect(
+      codeOf(() => encodeChatLink({ type: 'item', id: 0x1000000, quantity: 1 })),
+    ).toBe(BuildCodeErrorCode.INVALID_CHAT_LINK_FIELD);
+
+    try {
+      encodeChatLink({ type: 'item', id: 23029, quantity: 0 });
+    } catch (error) {
+      expect((error as BuildCodeError).path).toBe('quantity');
+    }
+    expect.assertions(3);
+  });
+
+  it('should reject unknown types', () => {
+    expect(
+      codeOf(() => encodeChatLink({ type: 'coin', copper: 1 } as never)),
+    ).toBe(BuildCodeErrorCode.INVALID_TYPE);
+  });
+});
+
+describe('item links', () => {
+  const ITEM_LINKS: [string, ChatLink][] = [
+    ['[&AvoJTQAA]', { type: 'item', id: 19721, quantity: 250 }],
+    [
+      '[&AgHcdwDgRhIAACdgAAAkYQAA]',
+      {
+        type: 'item',
+        id: 30684,
+        quantity: 1,
+        skin: 4678,
+        upgrade1: 24615,
+        upgrade2: 24868,
+      },
+    ],
+    [
+      '[&AgHJuwBABGEAAA==]',
+      { type: 'item', id: 48073, quantity: 1, upgrade1: 24836 },
+    ],
+    [
+      '[&AgHcdwAgJGEAAA==]',
+      { type: 'item', id: 30684, quantity: 1, upgrade2: 24868 },
+    ],
+  ];
+
+  it.each(ITEM_LINKS)('should decode %s', (chatLink, expected) => {
+    expect(decodeChatLink(chatLink)).toEqual(expected);
+  });
+
+  it.each(ITEM_LINKS)('should encode %s', (chatLink, link) => {
+    expect(encodeChatLink(link)).toBe(chatLink);
+  });
+
+  it('should read the sigils off a weapon link', () => {
+    const link = decodeChatLink('[&AgHcdwDgRhIAACdgAAAkYQAA]');
+
+    expect(link.type === 'item' && [link.upgrade1, link.upgrade2]).toEqual([
+      24615, 24868,
+    ]);
+  });
+
+  it('should ignore unknown flag bits', () => {
+    expect(decodeChatLink('[&AgHcdwAB]')).toEqual({
+      type: 'item',
+      id: 30684,
+      quantity: 1,
+    });
+  });
+
+  it('should reject links missing a flagged ID', () => {
+    // Skin and both upgrades flagged, only the skin present
+    expect(codeOf(() => decodeChatLink('[&AgHcdwDgRhIAAA==]'))).toBe(
+      BuildCodeErrorCode.INVALID_LENGTH,
+    );
+  });
+
+  it('should reject optional IDs that do not fit', () => {
+    try {
+      encodeChatLink({ type: 'item', id: 30684, quantity: 1, upgrade2: -5 });
+    } catch (error) {
+      expect((error as BuildCodeError).code).toBe(
+        BuildCodeErrorCode.INVALID_CHAT_LINK_FIELD,
+      );
+      expect((error as BuildCodeError).path).toBe('upgrade2');
+    }
+    expect.assertions(2);
+  });
+});
+
+describe('ChatLinkRegistry', () => {
+  interface CoinChatLink {
+    type: 'coin';
+    copper: number;
+  }
+
+  const defaults = new ChatLinkRegistry(DEFAULT_CHAT_LINK_CODECS);
+  const registry = defaults.register<CoinChatLink>({
+    type: 'coin',
+    typeIndicator: 0x01,
+    decode: (view) => ({ type: 'coin', copper: view.readUInt32LE() }),
+    encodedLength: () => 4,
+    encode: (link, writer) => writer.writeUInt32LE(link.copper),
+  });
+
+  it('should decode and encode registered link types', () => {
+    expect(registry.decode('[&AdsnAAA=]')).toEqual({
+      type: 'coin',
+      copper: 10203,
+    });
+    expect(registry.encode({ type: 'coin', copper: 10203 })).toBe(
+      '[&AdsnAAA=]',
+    );
+  });
+
+  it('should keep the default codecs', () => {
+    expect(registry.decode('[&BucCAAA=]')).toEqual({ type: 'skill', id: 743 });
+    expect(registry.getCodec('skill')?.typeIndicator).toBe(0x06);
+  });
+
+  it('should not change the registry it extends', () => {
+    expect(codeOf(() => defaults.decode('[&AdsnAAA=]'))).toBe(
+      BuildCodeErrorCode.INVALID_TYPE,
+    );
+    expect(codeOf(() => decodeChatLink('[&AdsnAAA=]'))).toBe(
+      BuildCodeErrorCode.INVALID_TYPE,
+    );
+  });
+
+  it('should reject duplicate types and type indicators', () => {
+    const register = (type: string, typeIndicator: number) => () =>
+      defaults.register({
+        type,
+        typeIndicator,
+        decode: () => ({ type }),
+        encodedLength: () => 0,
+        encode: () => {},
+      });
+
+    expect(register('skill', 0x20)).toThrow(
+      'Chat link type "skill" is already registered',
+    );
+    expect(register('other', 0x06)).toThrow(
+      'Chat link type indicator 0x6 is already registered',
+    );
+    expect(codeOf(register('skill', 0x20))).toBe(
+      BuildCodeErrorCode.DUPLICATE_CHAT_LINK_TYPE,
+    );
+    try {
+      register('other', 0x06)();
+    } catch (error) {
+      expect((error as BuildCodeError).path).toBe('typeIndicator');
+    }
+  });
+
+  it('should start empty when given no codecs', () => {
+    expect(codeOf(() => new ChatLinkRegistry([]).decode('[&BucCAAA=]'))).toBe(
+      BuildCodeErrorCode.INVALID_TYPE,
+    );
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Tests for the gw2-build command-line tool
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { ERROR_EXIT_CODES, ExitCode, run } from '../src/cli.js';
+import { BuildCodeErrorCode } from '../src/errors.js';
+import { OFFICIAL_CODES } from './fixtures.js';
+
+const snapshots = fileURLToPath(new URL('./snapshots', import.meta.url));
+const professionsFile = `${snapshots}/professions.json`;
+
+/**
+ * Run the CLI against in-memory streams
+ */
+async function cli(args: string[], stdin: string = '') {
+  let stdout = '';
+  let stderr = '';
+  const code = await run(args, {
+    readStdin: async () => stdin,
+    stdout: (text) => {
+      stdout += text;
+    },
+    stderr: (text) => {
+      stderr += text;
+    },
+  });
+  return { code, stdout, stderr };
+}
+
+describe('gw2-build CLI', () => {
+  const { chatLink } = OFFICIAL_CODES.fullNecro2;
+
+  describe('decode', () => {
+    it('should print the decoded build as JSON', async () => {
+      const result = await cli(['decode', chatLink, '--snapshots', snapshots]);
+
+      expect(result.code).toBe(ExitCode.Success);
+      const build = JSON.parse(result.stdout);
+      expect(build.profession).toBe(8);
+      expect(build.skills.heal).toBe(10527);
+      expect(build.skills.utility1).toBe(10545);
+    });
+
+    it('should read the link from stdin and accept a professions snapshot as palette', async () => {
+      const result = await cli(
+        ['decode', '--palette', professionsFile],
+        `${chatLink}\n`,
+      );
+
+      expect(result.code).toBe(ExitCode.Success);
+      expect(JSON.parse(result.stdout).skills.elite).toBe(10550);
+    });
+
+    it('should require a palette table', async () => {
+      const result = await cli(['decode', chatLink]);
+
+      expect(result.code).toBe(ExitCode.UsageError);
+      expect(result.stderr).toContain('needs a palette table');
+    });
+  });
+
+  describe('encode', () => {
+    it('should encode BuildCode JSON from stdin', async () => {
+      const decoded = await cli(['decode', chatLink, '--snapshots', snapshots]);
+      const result = await cli(
+        ['encode', '--snapshots', snapshots],
+        decoded.stdout,
+      );
+
+      expect(result.code).toBe(ExitCode.Success);
+      expect(result.stdout).toBe(`${chatLink}\n`);
+    });
+
+    it('should reject invalid JSON', async () => {
+      const result = await cli(['encode', '--snapshots', snapshots], '{');
+
+      expect(result.code).toBe(ExitCode.InputError);
+      expect(result.stderr).toContain('stdin is not valid JSON');
+    });
+
+    it.each([
+      ['{"profession":"8"}', 'profession must be a number'],
+      ['{"profession":1}', 'specializations must be an array'],
+      [
+        '{"profession":1,"specializations":[{"id":1}],"skills":{}}',
+        'specializations[0] must have a numeric id and three traits',
+      ],
+      ['{"profession":1,"specializations":[],"skills":{}}', 'skills.heal is missing'],
+      [
+        '{"profession":4,"specializations":[],"skills":{"heal":0,"utility1":0,"utility2":0,"utility3":0,"elite":0},"professionSpecific":{"type":"ranger"}}',
+        'professionSpecific must be',
+      ],
+    ])('should reject the malformed build %s as an input error', async (json, message) => {
+      for (const command of ['encode', 'validate']) {
+        const result = await cli([command, '--snapshots', snapshots], json);
+
+        expect(result.code).toBe(ExitCode.InputError);
+        expect(result.stderr).toContain(`stdin is not a BuildCode: ${message}`);
+      }
+    });
+  });
+
+  describe('inspect', () => {
+    it('should label every field of the hex dump', async () => {
+      const result = await cli(['inspect', chatLink]);
+
+      expect(result.code).toBe(ExitCode.Success);
+      const lines = result.stdout.trimEnd().split('\n');
+      expect(lines).toContain(
+        '1        08                                               profession: 8 (Necromancer)',
+      );
+      expect(lines).toContain(
+        '8-9      c1 12                                            heal: palette 4801',
+      );
+      expect(lines).toContain(
+        '7        36                                               traits: Middle/Top/Bottom',
+      );
+      expect(lines[lines.length - 1]).toMatch(/^28-43 .* unused$/);
+    });
+
+    it('should annotate weapons and skill variants', async () => {
+      // fullNecro2 with Dagger, Staff and skill variant 62702
+      const result = await cli([
+        'inspect',
+        '[&DQg1KTIlIjbBEgAAgQAAAEABAAB1AQAAlQAAAAAAAAAAAAAAAAAAAAAAAAACLwBZAAHu9AAA]',
+      ]);
+
+      expect(result.code).toBe(ExitCode.Success);
+      expect(result.stdout).toContain(`
+44       02                                               weapon count: 2
+45-46    2f 00                                            weapon 1: 47 (Dagger)
+47-48    59 00                                            weapon 2: 89 (Staff)
+49       01                                               skill variant count: 1
+50-53    ee f4 00 00                                      skill variant 1: 62702
+`);
+    });
+
+    it('should mark unexplained bytes', async () => {
+      // fullNecro2 followed by an empty extension and one trailing byte
+      const result = await cli([
+        'inspect',
+        '[&DQg1KTIlIjbBEgAAgQAAAEABAAB1AQAAlQAAAAAAAAAAAAAAAAAAAAAAAAAAAP8=]',
+      ]);
+
+      expect(result.code).toBe(ExitCode.Success);
+      expect(result.stdout).toMatch(/\n46 +ff +trailing data \[unexplained\]\n$/);
+    });
+  });
+
+  describe('validate', () => {
+    it('should exit 0 for a valid build', async () => {
+      const result = await cli(['validate', chatLink, '--snapshots', snapshots]);
+
+      expect(result.code).toBe(ExitCode.Success);
+      expect(result.stdout).toBe('Build is valid (0 warnings)\n');
+    });
+
+    it('should list issues and exit 1 for an invalid build', async () => {
+      const result = await cli([
+        'validate',
+        OFFICIAL_CODES.fullNecro.chatLink,
+        '--snapshots',
+        snapshots,
+      ]);
+
+      expect(result.code).toBe(ExitCode.Failure);
+      expect(result.stdout).toContain(
+        'error /skills/aquaticUtility3: Skill "Well of Suffering" (10546) cannot be used underwater [underwater-skills]',
+      );
+    });
+
+    it('should print the result as JSON', async () => {
+      const result = await cli([
+        'validate',
+        OFFICIAL_CODES.fullNecro.chatLink,
+        '--snapshots',
+        snapshots,
+        '--json',
+      ]);
+
+      const parsed = JSON.parse(result.stdout);
+      expect(parsed.valid).toBe(false);
+      expect(parsed.errors[0].ruleId).toBe('underwater-skills');
+    });
+
+    it('should accept BuildCode JSON from stdin', async () => {
+      const decoded = await cli(['decode', chatLink, '--snapshots', snapshots]);
+      const result = await cli(
+        ['validate', '--snapshots', snapshots],
+        decoded.stdout,
+      );
+
+      expect(result.code).toBe(ExitCode.Success);
+    });
+
+    it('should require snapshots', async () => {
+      const result = await cli(['validate', chatLink]);
+
+      expect(result.code).toBe(ExitCode.UsageError);
+    });
+  });
+
+  describe('diff', () => {
+    it('should exit 0 without output for identical builds', async () => {
+      const result = await cli([
+        'diff',
+        chatLink,
+        chatLink,
+        '--snapshots',
+        snapshots,
+      ]);
+
+      expect(result.code).toBe(ExitCode.Success);
+      expect(result.stdout).toBe('');
+    });
+
+    it('should list changed skills by JSON pointer', async () => {
+      const result = await cli([
+        'diff',
+        chatLink,
+        OFFICIAL_CODES.fullNecro.chatLink,
+        '--snapshots',
+        snapshots,
+      ]);
+
+      expect(result.code).toBe(ExitCode.Failure);
+      expect(result.stdout).toContain('~ /skills/aquaticUtility1: 0 → 10549\n');
+    });
+
+    it('should compare palette indices without a palette table', async () => {
+      const result = await cli(['diff', chatLink, OFFICIAL_CODES.fullNecro.chatLink]);
+
+      expect(result.code).toBe(ExitCode.Failure);
+      expect(result.stdout).toContain(
+        '~ /skillPalette/aquaticUtility1: 0 → 373\n',
+      );
+    });
+  });
+
+  describe('exit codes', () => {
+    it('should map build code errors to their exit code', async () => {
+      const result = await cli(['decode', '[&DQg=]', '--snapshots', snapshots]);
+
+      expect(result.code).toBe(
+        ERROR_EXIT_CODES[BuildCodeErrorCode.INVALID_LENGTH],
+      );
+      expect(result.stderr).toContain('(INVALID_LENGTH)');
+    });
+
+    it('should give every error code its own exit code', () => {
+      const codes = Object.values(BuildCodeErrorCode).map(
+        (code) => ERROR_EXIT_CODES[code],
+      );
+
+      expect(new Set(codes).size).toBe(codes.length);
+      expect(Math.min(...codes)).toBe(10);
+    });
+
+    it('should report unknown commands and options as usage errors', async () => {
+      expect((await cli(['bogus'])).code).toBe(ExitCode.UsageError);
+      expect((await cli([])).code).toBe(ExitCode.UsageError);
+      expect((await cli(['decode', '--bogus'])).code).toBe(ExitCode.UsageError);
+    });
+
+    it('should report unreadable files as input errors', async () => {
+      const result = await cli([
+        'decode',
+        chatLink,
+        '--palette',
+        `${snapshots}/missing.json`,
+      ]);
+
+      expect(result.code).toBe(ExitCode.InputError);
+    });
+
+    it('should exit with its own code on unexpected errors', async () => {
+      const stderr: string[] = [];
+      const code = await run(['inspect', chatLink], {
+        readStdin: async () => '',
+        stdout: () => {
+          throw new Error('write EPIPE');
+        },
+        stderr: (text) => stderr.push(text),
+      });
+
+      expect(code).toBe(ExitCode.InternalError);
+      expect(code).not.toBe(ExitCode.Failure);
+      expect(stderr).toEqual(['gw2-build: unexpected error: write EPIPE\n']);
+    });
+
+    it('should report a truncated Engineer extension as a build code error', async () => {
+      const truncated = `[&${Buffer.from([0x0d, 3, ...new Array(42).fill(0), 3, 0, 0]).toString('base64')}]`;
+      const result = await cli([
+        'decode',
+        truncated,
+        '--strict',
+        '--snapshots',
+        snapshots,
+      ]);
+
+      expect(result.code).toBe(
+        ERROR_EXIT_CODES[BuildCodeErrorCode.TRUNCATED_ENGINEER_EXTENSION],
+      );
+    });
+
+    it('should print usage for --help', async () => {
+      const result = await cli(['--help']);
+
+      expect(result.code).toBe(ExitCode.Success);
+      expect(result.stdout).toContain('Usage: gw2-build');
+    });
+  });
+});
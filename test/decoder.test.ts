@@ -52,6 +52,33 @@ describe('decode', () => {
     }
   });
 
+  it('should decode Ranger aquatic pets from bytes 30-31', async () => {
+    const buffer = Buffer.alloc(44);
+    buffer[0] = 0x0d;
+    buffer[1] = 4; // Ranger
+    buffer[28] = 59; // Terrestrial pet 1
+    buffer[29] = 17; // Terrestrial pet 2
+    buffer[30] = 21; // Aquatic pet 1
+    buffer[31] = 47; // Aquatic pet 2
+    const chatLink = `[&${buffer.toString('base64')}]`;
+
+    const build = await decode(chatLink, mockMapper);
+
+    expect(build.professionSpecific).toEqual({
+      type: 'ranger',
+      pets: [59, 17],
+      aquaticPets: [21, 47],
+    });
+  });
+
+  it('should omit aquatic pets when both slots are empty', async () => {
+    const build = await decode(OFFICIAL_CODES.rangerPets.chatLink, mockMapper);
+
+    if (build.professionSpecific?.type === 'ranger') {
+      expect(build.professionSpecific.aquaticPets).toBeUndefined();
+    }
+  });
+
   it('should decode a Revenant build', async () => {
     const build = await decode(OFFICIAL_CODES.revenant.chatLink, mockMapper);
 
@@ -60,6 +87,63 @@ describe('decode', () => {
     expect(build.professionSpecific?.type).toBe('revenant');
   });
 
+  it('should decode Revenant aquatic legends in the same pass', async () => {
+    const build = await decode(
+      OFFICIAL_CODES.partialRevenant.chatLink,
+      mockMapper,
+    );
+
+    expect(build.professionSpecific).toMatchObject({
+      type: 'revenant',
+      legends: [4, 2],
+      aquaticLegends: [3],
+    });
+  });
+
+  it('should decode Revenant aquatic inactive skills with the aquatic legends', async () => {
+    const buffer = Buffer.alloc(44);
+    buffer[0] = 0x0d;
+    buffer[1] = 9; // Revenant
+    buffer.writeUInt16LE(100, 8); // heal
+    buffer.writeUInt16LE(200, 10); // aquaticHeal
+    buffer[28] = 3; // Terrestrial legends: Mallyx / Ventari
+    buffer[29] = 5;
+    buffer[30] = 4; // Aquatic legends: Jalis / Shiro
+    buffer[31] = 1;
+    buffer.writeUInt16LE(301, 32); // Inactive terrestrial utilities
+    buffer.writeUInt16LE(302, 34);
+    buffer.writeUInt16LE(303, 36);
+    buffer.writeUInt16LE(401, 38); // Inactive aquatic utilities
+    buffer.writeUInt16LE(402, 40);
+    buffer.writeUInt16LE(403, 42);
+    const chatLink = `[&${buffer.toString('base64')}]`;
+
+    const lookups: Array<[number, number | undefined]> = [];
+    const build = await decode(chatLink, {
+      paletteToSkill: async (_profession, paletteIndex, legend) => {
+        lookups.push([paletteIndex, legend]);
+        return paletteIndex + 10000;
+      },
+      skillToPalette: async (_profession, skillId) => skillId - 10000,
+    });
+
+    expect(build.skills.heal).toBe(10100);
+    expect(build.skills.aquaticHeal).toBe(10200);
+    expect(build.professionSpecific).toEqual({
+      type: 'revenant',
+      legends: [3, 5],
+      inactiveSkills: [10301, 10302, 10303],
+      aquaticLegends: [4, 1],
+      aquaticInactiveSkills: [10401, 10402, 10403],
+    });
+
+    // Each slot resolves against the legend that owns it
+    expect(lookups).toContainEqual([100, 3]);
+    expect(lookups).toContainEqual([200, 4]);
+    expect(lookups).toContainEqual([301, 5]);
+    expect(lookups).toContainEqual([401, 1]);
+  });
+
   it('should accept chat links with or without [& wrapper', async () => {
     const fullLink = OFFICIAL_CODES.fullNecro.chatLink;
     const base64Only = fullLink.slice(2, -1);
@@ -143,13 +227,60 @@ describe('decode', () => {
     expect(build.skills.elite).toBe(0);
   });
 
-  it('should decode aquatic builds with offset', async () => {
-    const build = await decode(OFFICIAL_CODES.fullNecro.chatLink, mockMapper, {
-      aquatic: true,
+  describe('deprecated aquatic option', () => {
+    it('should decode the same build with or without aquatic', async () => {
+      const chatLink = OFFICIAL_CODES.fullNecro.chatLink;
+
+      expect(await decode(chatLink, mockMapper, { aquatic: true })).toEqual(
+        await decode(chatLink, mockMapper),
+      );
     });
 
-    expect(build.profession).toBe(Profession.Necromancer);
-    // Aquatic offset affects skill and profession-specific data positions
+    it('should keep the terrestrial Ranger pets in pets', async () => {
+      const buffer = Buffer.alloc(44);
+      buffer[0] = 0x0d;
+      buffer[1] = 4; // Ranger
+      buffer[28] = 59; // Terrestrial pets
+      buffer[29] = 17;
+      buffer[30] = 21; // Aquatic pets
+      buffer[31] = 47;
+      const chatLink = `[&${buffer.toString('base64')}]`;
+
+      const build = await decode(chatLink, mockMapper, { aquatic: true });
+
+      expect(build.professionSpecific).toEqual({
+        type: 'ranger',
+        pets: [59, 17],
+        aquaticPets: [21, 47],
+      });
+    });
+
+    it('should keep the terrestrial Revenant legends in legends', async () => {
+      const buffer = Buffer.alloc(44);
+      buffer[0] = 0x0d;
+      buffer[1] = 9; // Revenant
+      buffer[28] = 3; // Terrestrial legends: Mallyx / Ventari
+      buffer[29] = 5;
+      buffer[30] = 4; // Aquatic legends: Jalis / Shiro
+      buffer[31] = 1;
+      buffer.writeUInt16LE(301, 32); // Inactive terrestrial utilities
+      buffer.writeUInt16LE(302, 34);
+      buffer.writeUInt16LE(303, 36);
+      buffer.writeUInt16LE(401, 38); // Inactive aquatic utilities
+      buffer.writeUInt16LE(402, 40);
+      buffer.writeUInt16LE(403, 42);
+      const chatLink = `[&${buffer.toString('base64')}]`;
+
+      const build = await decode(chatLink, mockMapper, { aquatic: true });
+
+      expect(build.professionSpecific).toEqual({
+        type: 'revenant',
+        legends: [3, 5],
+        inactiveSkills: [10301, 10302, 10303],
+        aquaticLegends: [4, 1],
+        aquaticInactiveSkills: [10401, 10402, 10403],
+      });
+    });
   });
 
   it('should decode Engineer builds without crashing', async () => {
@@ -161,4 +292,115 @@ describe('decode', () => {
     // Engineer profession-specific data (morph skills) is not encoded in build codes
     expect(build.professionSpecific).toBeUndefined();
   });
+
+  describe('strict mode', () => {
+    const necroLink = OFFICIAL_CODES.fullNecro.chatLink;
+
+    const buildLink = (bytes: number[]) => {
+      const buffer = Buffer.alloc(44 + bytes.length);
+      buffer[0] = 0x0d;
+      buffer[1] = 8; // Necromancer
+      Buffer.from(bytes).copy(buffer, 44);
+      return `[&${buffer.toString('base64')}]`;
+    };
+
+    it('should accept every official code', async () => {
+      for (const fixture of Object.values(OFFICIAL_CODES)) {
+        await expect(
+          decode(fixture.chatLink, mockMapper, { strict: true }),
+        ).resolves.toBeDefined();
+      }
+    });
+
+    it('should reject illegal base64 characters with their offset', async () => {
+      const chatLink = necroLink.slice(0, 10) + '*' + necroLink.slice(11);
+
+      await expect(
+        decode(chatLink, mockMapper, { strict: true }),
+      ).rejects.toMatchObject({
+        code: BuildCodeErrorCode.INVALID_BASE64_CHARACTER,
+        offset: 10,
+      });
+    });
+
+    it('should reject wrong padding', async () => {
+      const chatLink = necroLink.replace('=]', ']');
+
+      await expect(
+        decode(chatLink, mockMapper, { strict: true }),
+      ).rejects.toMatchObject({
+        code: BuildCodeErrorCode.INVALID_BASE64_PADDING,
+      });
+    });
+
+    it('should reject a [& prefix without closing ]', async () => {
+      const chatLink = necroLink.slice(0, -1);
+
+      await expect(
+        decode(chatLink, mockMapper, { strict: true }),
+      ).rejects.toMatchObject({
+        code: BuildCodeErrorCode.MALFORMED_CHAT_LINK,
+        offset: chatLink.length,
+      });
+    });
+
+    it('should not truncate a missing ] in lenient mode', async () => {
+      const build1 = await decode(necroLink.slice(0, -1), mockMapper);
+      const build2 = await decode(necroLink, mockMapper);
+
+      expect(build1).toEqual(build2);
+    });
+
+    it('should reject a truncated weapon array', async () => {
+      // Announces 3 weapons but only holds one
+      const chatLink = buildLink([3, 0x35, 0x00]);
+
+      await expect(
+        decode(chatLink, mockMapper, { strict: true }),
+      ).rejects.toMatchObject({
+        code: BuildCodeErrorCode.TRUNCATED_WEAPON_ARRAY,
+        offset: 45,
+      });
+    });
+
+    it('should reject a truncated skill variant array in any mode', async () => {
+      // No weapons, announces 2 variants but only holds one
+      const chatLink = buildLink([0, 2, 1, 0, 0, 0]);
+
+      await expect(decode(chatLink, mockMapper)).rejects.toMatchObject({
+        code: BuildCodeErrorCode.TRUNCATED_SKILL_VARIANT_ARRAY,
+        offset: 46,
+      });
+    });
+
+    it('should reject a truncated Engineer extension in any mode', async () => {
+      // Format A announces 8 bytes, only 3 present
+      const buffer = Buffer.alloc(47);
+      buffer[0] = 0x0d;
+      buffer[1] = 3; // Engineer
+      buffer[44] = 0x03;
+      const chatLink = `[&${buffer.toString('base64')}]`;
+
+      for (const strict of [false, true]) {
+        await expect(
+          decode(chatLink, mockMapper, { strict }),
+        ).rejects.toMatchObject({
+          code: BuildCodeErrorCode.TRUNCATED_ENGINEER_EXTENSION,
+          offset: 45,
+        });
+      }
+    });
+
+    it('should reject trailing junk', async () => {
+      const chatLink = buildLink([0, 0, 0xff, 0xff]);
+
+      await expect(
+        decode(chatLink, mockMapper, { strict: true }),
+      ).rejects.toMatchObject({
+        code: BuildCodeErrorCode.TRAILING_DATA,
+        offset: 46,
+      });
+      await expect(decode(chatLink, mockMapper)).resolves.toBeDefined();
+    });
+  });
 });
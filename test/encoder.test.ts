@@ -0,0 +1,154 @@
+/**
+ * Unit tests for encoder input validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encode } from '../src/encoder.js';
+import { BuildCodeError, BuildCodeErrorCode } from '../src/errors.js';
+import { Profession, TraitChoice } from '../src/types.js';
+import type { BuildCode, PaletteMapper } from '../src/types.js';
+import { MockPaletteMapper } from './fixtures.js';
+
+const mockMapper = new MockPaletteMapper();
+
+const baseBuild = (): BuildCode => ({
+  profession: Profession.Ranger,
+  specializations: [
+    { id: 30, traits: [TraitChoice.Top, TraitChoice.Middle, TraitChoice.Bottom] },
+  ],
+  skills: {
+    heal: 10100,
+    utility1: 10200,
+    utility2: 10300,
+    utility3: 0,
+    elite: 0,
+    aquaticHeal: 0,
+    aquaticUtility1: 0,
+    aquaticUtility2: 0,
+    aquaticUtility3: 0,
+    aquaticElite: 0,
+  },
+  professionSpecific: { type: 'ranger', pets: [59, 17] },
+});
+
+describe('encode input validation', () => {
+  it('should encode a valid build', async () => {
+    await expect(encode(baseBuild(), mockMapper)).resolves.toMatch(/^\[&/);
+  });
+
+  it.each([
+    [
+      'profession out of range',
+      (build: BuildCode) => {
+        build.profession = 10 as Profession;
+      },
+      BuildCodeErrorCode.INVALID_PROFESSION,
+      'profession',
+    ],
+    [
+      'more than 3 specializations',
+      (build: BuildCode) => {
+        build.specializations = Array(4).fill(build.specializations[0]);
+      },
+      BuildCodeErrorCode.TOO_MANY_SPECIALIZATIONS,
+      'specializations',
+    ],
+    [
+      'specialization ID above 255',
+      (build: BuildCode) => {
+        build.specializations[0].id = 256;
+      },
+      BuildCodeErrorCode.INVALID_SPECIALIZATION_ID,
+      'specializations[0].id',
+    ],
+    [
+      'trait choice out of range',
+      (build: BuildCode) => {
+        build.specializations[0].traits[2] = 4 as TraitChoice;
+      },
+      BuildCodeErrorCode.INVALID_TRAIT_CHOICE,
+      'specializations[0].traits[2]',
+    ],
+    [
+      'fractional skill ID',
+      (build: BuildCode) => {
+        build.skills.utility2 = 10300.5;
+      },
+      BuildCodeErrorCode.INVALID_SKILL_ID,
+      'skills.utility2',
+    ],
+    [
+      'pet ID above 255',
+      (build: BuildCode) => {
+        build.professionSpecific = { type: 'ranger', pets: [59, 300] };
+      },
+      BuildCodeErrorCode.INVALID_PET_ID,
+      'professionSpecific.pets[1]',
+    ],
+    [
+      'legend ID above 255',
+      (build: BuildCode) => {
+        build.profession = Profession.Revenant;
+        build.specializations = [];
+        build.professionSpecific = { type: 'revenant', legends: [3, 256] };
+      },
+      BuildCodeErrorCode.INVALID_LEGEND_ID,
+      'professionSpecific.legends[1]',
+    ],
+    [
+      'more than 255 weapons',
+      (build: BuildCode) => {
+        build.weapons = Array(256).fill(35);
+      },
+      BuildCodeErrorCode.TOO_MANY_WEAPONS,
+      'weapons',
+    ],
+    [
+      'weapon ID above 65535',
+      (build: BuildCode) => {
+        build.weapons = [35, 70000];
+      },
+      BuildCodeErrorCode.INVALID_WEAPON_ID,
+      'weapons[1]',
+    ],
+    [
+      'negative skill variant ID',
+      (build: BuildCode) => {
+        build.skillVariants = [-1];
+      },
+      BuildCodeErrorCode.INVALID_SKILL_VARIANT_ID,
+      'skillVariants[0]',
+    ],
+    [
+      'profession block of the wrong length',
+      (build: BuildCode) => {
+        build.unparsed = { professionBlock: [1, 2, 3] };
+      },
+      BuildCodeErrorCode.INVALID_UNPARSED_DATA,
+      'unparsed.professionBlock',
+    ],
+  ])(
+    'should reject %s',
+    async (_description, mutate, code, path) => {
+      const build = baseBuild();
+      mutate(build);
+
+      const error = await encode(build, mockMapper).catch((e) => e);
+
+      expect(error).toBeInstanceOf(BuildCodeError);
+      expect(error).toMatchObject({ code, path });
+    },
+  );
+
+  it('should reject palette indices that do not fit in 16 bits', async () => {
+    const wideMapper: PaletteMapper = {
+      paletteToSkill: async (_profession, paletteIndex) => paletteIndex,
+      skillToPalette: async () => 0x10000,
+    };
+
+    await expect(encode(baseBuild(), wideMapper)).rejects.toMatchObject({
+      code: BuildCodeErrorCode.PALETTE_INDEX_OUT_OF_RANGE,
+      path: 'skills.heal',
+    });
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Tests for validation fixes and applyFixes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BuildCodeErrorCode } from '../src/errors.js';
+import { applyFixes } from '../src/fixes.js';
+import { BuildValidator } from '../src/validator.js';
+import type { MetadataProvider } from '../src/validator.js';
+import { Profession, TraitChoice } from '../src/types.js';
+import type { BuildCode, Skills } from '../src/types.js';
+import type { SkillInfo } from '../src/validation-types.js';
+
+const top: [TraitChoice, TraitChoice, TraitChoice] = [
+  TraitChoice.Top,
+  TraitChoice.Top,
+  TraitChoice.Top,
+];
+
+const skills: Record<number, SkillInfo> = {
+  10527: {
+    id: 10527,
+    name: 'Well of Blood',
+    professions: ['Necromancer', 'Ranger'],
+    type: 'Heal',
+    slot: 'Heal',
+  },
+  10532: {
+    id: 10532,
+    name: 'Well of Corruption',
+    professions: ['Necromancer', 'Ranger'],
+    type: 'Utility',
+    slot: 'Utility',
+  },
+  10546: {
+    id: 10546,
+    name: 'Well of Suffering',
+    professions: ['Necromancer', 'Ranger'],
+    type: 'Utility',
+    slot: 'Utility',
+    flags: ['NoUnderwater'],
+  },
+};
+
+const provider: MetadataProvider = {
+  getSkillInfo: async (id) => skills[id] ?? null,
+  getSpecializationInfo: async (id) =>
+    ({
+      53: { id: 53, name: 'Spite', profession: 'Necromancer', elite: false },
+      50: { id: 50, name: 'Soul Reaping', profession: 'Necromancer', elite: false },
+      34: { id: 34, name: 'Reaper', profession: 'Necromancer', elite: true },
+      27: { id: 27, name: 'Dragonhunter', profession: 'Guardian', elite: true },
+    })[id] ?? null,
+  getPetInfo: async (id) => (id === 59 ? { id, name: 'Moa' } : null),
+};
+
+const emptySkills: Skills = {
+  heal: 0,
+  utility1: 0,
+  utility2: 0,
+  utility3: 0,
+  elite: 0,
+  aquaticHeal: 0,
+  aquaticUtility1: 0,
+  aquaticUtility2: 0,
+  aquaticUtility3: 0,
+  aquaticElite: 0,
+};
+
+const validator = new BuildValidator(provider, { suggestFixes: true });
+
+async function repair(build: BuildCode) {
+  const result = await validator.validate(build);
+  const repaired = applyFixes(build, result.fixes ?? []);
+  return { result, repaired, after: await validator.validate(repaired) };
+}
+
+describe('BuildValidator fixes', () => {
+  it('should not suggest fixes unless enabled', async () => {
+    const build: BuildCode = {
+      profession: Profession.Necromancer,
+      specializations: [],
+      skills: { ...emptySkills, utility1: 999999 },
+    };
+
+    const result = await new BuildValidator(provider).validate(build);
+
+    expect(result.errors[0].fix).toBeUndefined();
+    expect(result.fixes).toBeUndefined();
+  });
+
+  it('should move the elite specialization into the third slot', async () => {
+    const build: BuildCode = {
+      profession: Profession.Necromancer,
+      specializations: [
+        { id: 34, traits: top },
+        { id: 53, traits: top },
+        { id: 50, traits: top },
+      ],
+      skills: emptySkills,
+    };
+
+    const { result, repaired, after } = await repair(build);
+
+    expect(result.errors[0].fix).toEqual({
+      description: 'Move elite specialization 34 to the third slot',
+      operations: [
+        { op: 'move', from: '/specializations/0', path: '/specializations/-' },
+      ],
+    });
+    expect(repaired.specializations.map((spec) => spec.id)).toEqual([
+      53, 50, 34,
+    ]);
+    expect(after.valid).toBe(true);
+    expect(build.specializations[0].id).toBe(34); // Input is not modified
+  });
+
+  it('should drop the stale specialization block when moving the elite', async () => {
+    const build: BuildCode = {
+      profession: Profession.Necromancer,
+      specializations: [
+        { id: 34, traits: top },
+        { id: 53, traits: top },
+      ],
+      skills: emptySkills,
+      unparsed: { specializationBlock: [34, 0x15, 53, 0x15, 0, 0] },
+    };
+
+    const { repaired, after } = await repair(build);
+
+    expect(repaired.unparsed).toEqual({});
+    expect(repaired.specializations.map((spec) => spec.id)).toEqual([53, 34]);
+    expect(after.errors).toHaveLength(0);
+  });
+
+  it('should remove a duplicated utility and aquatic-illegal skills', async () => {
+    const build: BuildCode = {
+      profession: Profession.Necromancer,
+      specializations: [],
+      skills: {
+        ...emptySkills,
+        heal: 10527,
+        utility1: 10532,
+        utility2: 10532,
+        aquaticUtility1: 10546,
+      },
+    };
+
+    const { result, repaired, after } = await repair(build);
+
+    expect(result.fixes?.map((fix) => fix.description)).toEqual([
+      'Remove skill 10532 from utility2',
+      'Remove skill 10546 from aquaticUtility1',
+    ]);
+    expect(repaired.skills).toEqual({
+      ...emptySkills,
+      heal: 10527,
+      utility1: 10532,
+    });
+    expect(after.errors).toHaveLength(0);
+  });
+
+  it('should clear invalid pets', async () => {
+    const build: BuildCode = {
+      profession: Profession.Ranger,
+      specializations: [],
+      skills: emptySkills,
+      professionSpecific: { type: 'ranger', pets: [59, 998], aquaticPets: [997, 59] },
+    };
+
+    const { repaired, after } = await repair(build);
+
+    expect(repaired.professionSpecific).toEqual({
+      type: 'ranger',
+      pets: [59, 0],
+      aquaticPets: [0, 59],
+    });
+    expect(after.errors).toHaveLength(0);
+  });
+
+  it('should combine removals with moves from the same validation', async () => {
+    const build: BuildCode = {
+      profession: Profession.Necromancer,
+      specializations: [
+        { id: 27, traits: top },
+        { id: 34, traits: top },
+        { id: 53, traits: top },
+      ],
+      skills: emptySkills,
+    };
+
+    const { result, repaired } = await repair(build);
+
+    // Dragonhunter and Reaper are both elite, so no elite move is suggested
+    expect(result.fixes?.map((fix) => fix.description)).toEqual([
+      'Remove specialization Dragonhunter',
+    ]);
+    expect(repaired.specializations.map((spec) => spec.id)).toEqual([34, 53]);
+
+    const { repaired: final, after } = await repair(repaired);
+    expect(final.specializations.map((spec) => spec.id)).toEqual([53, 34]);
+    expect(after.valid).toBe(true);
+  });
+});
+
+describe('applyFixes', () => {
+  const build: BuildCode = {
+    profession: Profession.Necromancer,
+    specializations: [
+      { id: 34, traits: top },
+      { id: 27, traits: top },
+      { id: 53, traits: top },
+    ],
+    skills: emptySkills,
+    weapons: [50, 50, 47],
+  };
+
+  it('should resolve all paths against the original build', () => {
+    const repaired = applyFixes(build, [
+      {
+        description: 'Move Reaper',
+        operations: [
+          { op: 'move', from: '/specializations/0', path: '/specializations/-' },
+        ],
+      },
+      {
+        description: 'Remove Dragonhunter',
+        operations: [{ op: 'remove', path: '/specializations/1' }],
+      },
+      {
+        description: 'Remove greatswords',
+        operations: [
+          { op: 'remove', path: '/weapons/1' },
+          { op: 'remove', path: '/weapons/0' },
+          { op: 'remove', path: '/weapons/1' },
+        ],
+      },
+    ]);
+
+    expect(repaired.specializations.map((spec) => spec.id)).toEqual([53, 34]);
+    expect(repaired.weapons).toEqual([47]);
+  });
+
+  it('should reject paths the build does not have', () => {
+    const invalid = [
+      '/skills/utility9/0',
+      '/specializations/3',
+      '/professionSpecific/pets/0',
+      '',
+    ];
+
+    for (const path of invalid) {
+      expect(() =>
+        applyFixes(build, [
+          { description: 'Broken', operations: [{ op: 'remove', path }] },
+        ]),
+      ).toThrow(
+        expect.objectContaining({ code: BuildCodeErrorCode.INVALID_FIX, path }),
+      );
+    }
+  });
+});
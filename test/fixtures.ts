@@ -118,3 +118,20 @@ export class MockPaletteMapper {
     return skillId - this.OFFSET;
   }
 }
+
+/**
+ * Synchronous counterpart of MockPaletteMapper (same mapping, no Promises)
+ */
+export class MockSyncPaletteMapper {
+  private readonly OFFSET = 10000;
+
+  paletteToSkill(profession: Profession, paletteIndex: number): number {
+    if (paletteIndex === 0) return 0;
+    return paletteIndex + this.OFFSET;
+  }
+
+  skillToPalette(profession: Profession, skillId: number): number {
+    if (skillId === 0) return 0;
+    return skillId - this.OFFSET;
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Tests for the byte layout inspector
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decodeBase64, encodeBase64 } from '../src/base64.js';
+import { BuildCodeError, BuildCodeErrorCode } from '../src/errors.js';
+import { inspect } from '../src/inspector.js';
+import type { ByteRange } from '../src/inspector.js';
+import { TraitChoice } from '../src/types.js';
+import { OFFICIAL_CODES } from './fixtures.js';
+
+/**
+ * Append bytes to a chat link (or replace bytes at an offset)
+ */
+function withBytes(
+  chatLink: string,
+  extra: number[],
+  at?: number,
+): string {
+  const bytes = Array.from(decodeBase64(chatLink.slice(2, -1)));
+  bytes.splice(at ?? bytes.length, at === undefined ? 0 : extra.length, ...extra);
+  return `[&${encodeBase64(new Uint8Array(bytes))}]`;
+}
+
+function rangeOf(ranges: ByteRange[], field: string): ByteRange | undefined {
+  return ranges.find((range) => range.field === field);
+}
+
+describe('inspect', () => {
+  it('should label every byte of a build code in order', () => {
+    const { bytes, ranges, hasUnexplainedBytes } = inspect(
+      OFFICIAL_CODES.fullNecro.chatLink,
+    );
+
+    expect(bytes).toHaveLength(44);
+    expect(hasUnexplainedBytes).toBe(false);
+
+    let position = 0;
+    for (const range of ranges) {
+      expect(range.start).toBe(position);
+      expect(range.bytes).toEqual(bytes.slice(range.start, range.start + range.length));
+      position += range.length;
+    }
+    expect(position).toBe(44);
+  });
+
+  it('should describe the header, specializations and skill palette', () => {
+    const { ranges } = inspect(OFFICIAL_CODES.fullNecro.chatLink);
+
+    expect(ranges[0]).toEqual({
+      start: 0,
+      length: 1,
+      bytes: [0x0d],
+      field: 'typeIndicator',
+      value: 0x0d,
+      description: 'type indicator: 0x0d',
+    });
+    expect(rangeOf(ranges, 'profession')?.description).toBe(
+      'profession: 8 (Necromancer)',
+    );
+    expect(rangeOf(ranges, 'specializations[2].id')?.description).toBe(
+      'specialization 3: 34 (Reaper)',
+    );
+    expect(rangeOf(ranges, 'specializations[2].traits')).toMatchObject({
+      start: 7,
+      value: 0x36,
+      traits: [TraitChoice.Middle, TraitChoice.Top, TraitChoice.Bottom],
+      description: 'traits: Middle/Top/Bottom',
+    });
+
+    // Terrestrial and aquatic slots alternate
+    expect(
+      ranges
+        .filter((range) => range.field.startsWith('skills.'))
+        .map((range) => [range.start, range.field, range.value]),
+    ).toEqual([
+      [8, 'skills.heal', 4801],
+      [10, 'skills.aquaticHeal', 0],
+      [12, 'skills.utility1', 129],
+      [14, 'skills.aquaticUtility1', 373],
+      [16, 'skills.utility2', 320],
+      [18, 'skills.aquaticUtility2', 129],
+      [20, 'skills.utility3', 373],
+      [22, 'skills.aquaticUtility3', 320],
+      [24, 'skills.elite', 149],
+      [26, 'skills.aquaticElite', 149],
+    ]);
+    expect(rangeOf(ranges, 'unparsed.professionBlock')).toMatchObject({
+      start: 28,
+      length: 16,
+      description: 'unused',
+    });
+  });
+
+  it('should describe Ranger pets', () => {
+    const { ranges } = inspect(OFFICIAL_CODES.rangerPets.chatLink);
+
+    expect(rangeOf(ranges, 'professionSpecific.pets[0]')).toMatchObject({
+      start: 28,
+      value: 59,
+      description: 'pets[0]: 59',
+    });
+    expect(rangeOf(ranges, 'professionSpecific.aquaticPets[1]')).toMatchObject({
+      start: 31,
+      description: 'aquaticPets[1]: none',
+    });
+    expect(rangeOf(ranges, 'unparsed.professionBlock')).toMatchObject({
+      start: 32,
+      length: 12,
+    });
+  });
+
+  it('should describe Revenant legends and inactive skills', () => {
+    const { ranges, hasUnexplainedBytes } = inspect(
+      OFFICIAL_CODES.revenant.chatLink,
+    );
+
+    expect(hasUnexplainedBytes).toBe(false);
+    expect(rangeOf(ranges, 'professionSpecific.legends[0]')).toMatchObject({
+      start: 28,
+      value: 7,
+      description: 'legends[0]: 7 (Legendary Alliance Stance (Vindicator))',
+    });
+    expect(rangeOf(ranges, 'professionSpecific.legends[1]')?.value).toBe(1);
+    expect(
+      rangeOf(ranges, 'professionSpecific.inactiveSkills[0]'),
+    ).toMatchObject({ start: 32, length: 2, value: 4614 });
+    expect(
+      rangeOf(ranges, 'professionSpecific.aquaticInactiveSkills[2]'),
+    ).toMatchObject({ start: 42, length: 2, description: 'aquaticInactiveSkills[2]: empty' });
+  });
+
+  it('should label weapon and skill variant arrays', () => {
+    const { ranges, hasUnexplainedBytes } = inspect(
+      withBytes(OFFICIAL_CODES.fullNecro2.chatLink, [
+        2, 47, 0, 89, 0, 1, 0xee, 0xf4, 0, 0,
+      ]),
+    );
+
+    expect(hasUnexplainedBytes).toBe(false);
+    expect(
+      ranges
+        .slice(-5)
+        .map((range) => [range.start, range.field, range.description]),
+    ).toEqual([
+      [44, 'weapons.length', 'weapon count: 2'],
+      [45, 'weapons[0]', 'weapon 1: 47 (Dagger)'],
+      [47, 'weapons[1]', 'weapon 2: 89 (Staff)'],
+      [49, 'skillVariants.length', 'skill variant count: 1'],
+      [50, 'skillVariants[0]', 'skill variant 1: 62702'],
+    ]);
+  });
+
+  describe('unexplained bytes', () => {
+    it('should flag trailing data', () => {
+      const { ranges, hasUnexplainedBytes } = inspect(
+        withBytes(OFFICIAL_CODES.fullNecro2.chatLink, [0, 0, 0xff]),
+      );
+
+      expect(hasUnexplainedBytes).toBe(true);
+      expect(ranges[ranges.length - 1]).toMatchObject({
+        start: 46,
+        bytes: [0xff],
+        field: 'unparsed.trailing',
+        unexplained: true,
+      });
+    });
+
+    it('should flag a truncated weapon array instead of throwing', () => {
+      const { ranges } = inspect(
+        withBytes(OFFICIAL_CODES.fullNecro2.chatLink, [3, 47, 0, 89]),
+      );
+
+      expect(ranges[ranges.length - 1]).toEqual({
+        start: 47,
+        length: 1,
+        bytes: [89],
+        field: 'weapons[1]',
+        description: 'weapons[1]: truncated (1 of 2 bytes)',
+        unexplained: true,
+      });
+    });
+
+    it('should flag stray trait bits and non-zero padding', () => {
+      const link = withBytes(
+        withBytes(OFFICIAL_CODES.fullNecro.chatLink, [0x35, 0xe9], 2),
+        [0, 0, 0, 0, 7],
+        28,
+      );
+      const { ranges } = inspect(link);
+
+      expect(rangeOf(ranges, 'specializations[0].traits')).toMatchObject({
+        traits: [TraitChoice.Top, TraitChoice.Middle, TraitChoice.Middle],
+        description: 'traits: Top/Middle/Middle (stray bits)',
+        unexplained: true,
+      });
+      expect(rangeOf(ranges, 'unparsed.professionBlock')).toMatchObject({
+        description: 'unused (non-zero)',
+        unexplained: true,
+      });
+    });
+
+    it('should flag the Engineer extension', () => {
+      const { ranges } = inspect(OFFICIAL_CODES.amalgam.chatLink);
+
+      expect(ranges[ranges.length - 1]).toMatchObject({
+        start: 44,
+        field: 'unparsed.engineerExtension',
+        unexplained: true,
+      });
+    });
+
+    it('should describe codes the decoder rejects', () => {
+      const { ranges } = inspect(
+        withBytes(OFFICIAL_CODES.fullNecro.chatLink, [0x0c, 12], 0),
+      );
+
+      expect(ranges[0]).toMatchObject({
+        description: 'type indicator: 0x0c (expected 0x0d)',
+        unexplained: true,
+      });
+      expect(ranges[1]).toMatchObject({
+        description: 'profession: 12 (unknown)',
+        unexplained: true,
+      });
+    });
+  });
+
+  it('should throw for invalid base64 in strict mode', () => {
+    expect(() =>
+      inspect('[&DQg1KTI*]', { strict: true }),
+    ).toThrowError(
+      expect.objectContaining({
+        code: BuildCodeErrorCode.INVALID_BASE64_CHARACTER,
+      }) as BuildCodeError,
+    );
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for finding and decoding build links in free text
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { decode } from '../src/decoder.js';
+import { BuildCodeError, BuildCodeErrorCode } from '../src/errors.js';
+import { decodeAll, findBuildLinks } from '../src/link-scanner.js';
+import { Profession } from '../src/types.js';
+import { MockPaletteMapper, OFFICIAL_CODES } from './fixtures.js';
+
+const necro = OFFICIAL_CODES.fullNecro.chatLink;
+const revenant = OFFICIAL_CODES.revenant.chatLink;
+/** Item and skill chat links (type indicators 0x02 and 0x06) */
+const itemLink = '[&AgH1WQAA]';
+const skillLink = '[&BucCAAA=]';
+/** Build template type indicator and profession, nothing else */
+const truncatedLink = '[&DQg=]';
+/** Engineer build whose extension announces 8 bytes but holds 3 */
+const truncatedEngineerLink = `[&${Buffer.from([0x0d, 3, ...new Array(42).fill(0), 3, 0, 0]).toString('base64')}]`;
+
+vi.mock('../src/decoder.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../src/decoder.js')>();
+  return { ...actual, decode: vi.fn(actual.decode) };
+});
+
+describe('findBuildLinks', () => {
+  it('should return every build link with its position', () => {
+    const text = `Raid builds: ${necro}\nand ${revenant}!`;
+
+    expect(findBuildLinks(text)).toEqual([
+      { chatLink: necro, start: 13, end: 13 + necro.length },
+      {
+        chatLink: revenant,
+        start: text.indexOf(revenant),
+        end: text.indexOf(revenant) + revenant.length,
+      },
+    ]);
+  });
+
+  it('should skip chat links that are not build templates', () => {
+    const text = `Bring ${itemLink} and use ${skillLink} with ${necro}`;
+
+    expect(findBuildLinks(text).map((match) => match.chatLink)).toEqual([
+      necro,
+    ]);
+  });
+
+  it('should find adjacent links and ignore unwrapped base64', () => {
+    const text = `${necro}${necro} DQg1KTIlIjbBEgAA [&] [&not base64]`;
+
+    expect(findBuildLinks(text).map((match) => match.start)).toEqual([
+      0,
+      necro.length,
+    ]);
+  });
+
+  it('should return an empty array when there are no links', () => {
+    expect(findBuildLinks('no builds here')).toEqual([]);
+  });
+});
+
+describe('decodeAll', () => {
+  const mapper = new MockPaletteMapper();
+
+  it('should decode every build link in the text', async () => {
+    const results = await decodeAll(
+      `${necro} vs ${OFFICIAL_CODES.rangerPets.chatLink}`,
+      mapper,
+    );
+
+    expect(results.map((result) => result.build?.profession)).toEqual([
+      Profession.Necromancer,
+      Profession.Ranger,
+    ]);
+    expect(results[0].build?.skills.heal).toBe(14801);
+    expect(results.every((result) => result.error === undefined)).toBe(true);
+  });
+
+  it('should report failing links without aborting the batch', async () => {
+    const results = await decodeAll(
+      `${truncatedLink} then ${necro}`,
+      mapper,
+    );
+
+    expect(results).toHaveLength(2);
+    expect(results[0].chatLink).toBe(truncatedLink);
+    expect(results[0].build).toBeUndefined();
+    expect(results[0].error).toBeInstanceOf(BuildCodeError);
+    expect(results[0].error?.code).toBe(BuildCodeErrorCode.INVALID_LENGTH);
+    expect(results[1].build?.profession).toBe(Profession.Necromancer);
+  });
+
+  it('should report a truncated Engineer extension without aborting the batch', async () => {
+    const results = await decodeAll(`${truncatedEngineerLink} ${necro}`, mapper);
+
+    expect(results[0].error?.code).toBe(
+      BuildCodeErrorCode.TRUNCATED_ENGINEER_EXTENSION,
+    );
+    expect(results[1].build?.profession).toBe(Profession.Necromancer);
+  });
+
+  it('should wrap unexpected errors instead of rejecting', async () => {
+    const crash = new RangeError('Offset is outside the bounds of the DataView');
+    vi.mocked(decode).mockRejectedValueOnce(crash);
+
+    const results = await decodeAll(`${revenant} ${necro}`, mapper);
+
+    expect(results[0].error).toBeInstanceOf(BuildCodeError);
+    expect(results[0].error?.code).toBe(BuildCodeErrorCode.DECODE_FAILED);
+    expect(results[0].error?.cause).toBe(crash);
+    expect(results[1].build?.profession).toBe(Profession.Necromancer);
+  });
+
+  it('should report palette lookup failures per link', async () => {
+    const failing = {
+      paletteToSkill: async (_profession: Profession, paletteIndex: number) => {
+        if (paletteIndex === 4801) throw new Error('unknown palette index');
+        return paletteIndex;
+      },
+      skillToPalette: async (_profession: Profession, skillId: number) => skillId,
+    };
+
+    const results = await decodeAll(`${necro} ${revenant}`, failing);
+
+    expect(results[0].error?.code).toBe(
+      BuildCodeErrorCode.PALETTE_LOOKUP_FAILED,
+    );
+    expect(results[1].build?.profession).toBe(Profession.Revenant);
+  });
+
+  it('should pass decode options to every link', async () => {
+    const results = await decodeAll(`[&${necro.slice(2, -2)}]`, mapper, {
+      strict: true,
+    });
+
+    expect(results[0].error?.code).toBe(
+      BuildCodeErrorCode.INVALID_BASE64_PADDING,
+    );
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Tests for CachingMetadataProvider
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { CachingMetadataProvider } from '../src/metadata-cache.js';
+import { BuildValidator } from '../src/validator.js';
+import type { MetadataProvider } from '../src/validator.js';
+import { Profession, TraitChoice } from '../src/types.js';
+import type { BuildCode } from '../src/types.js';
+
+function createProvider() {
+  return {
+    getSkillInfo: vi.fn(async (id: number) =>
+      id === 0 || id > 90000
+        ? null
+        : {
+            id,
+            name: `Skill ${id}`,
+            professions: ['Necromancer'],
+            type: 'Utility',
+            slot: 'Utility',
+          },
+    ),
+    getSpecializationInfo: vi.fn(async (id: number) => ({
+      id,
+      name: `Specialization ${id}`,
+      profession: 'Necromancer',
+      elite: id === 34,
+    })),
+  } satisfies MetadataProvider;
+}
+
+describe('CachingMetadataProvider', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should share in-flight lookups of the same ID', async () => {
+    const provider = createProvider();
+    const cached = new CachingMetadataProvider(provider);
+
+    const [first, second] = await Promise.all([
+      cached.getSkillInfo(10527),
+      cached.getSkillInfo(10527),
+    ]);
+
+    expect(first).toBe(second);
+    expect(provider.getSkillInfo).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cache not-found results', async () => {
+    const provider = createProvider();
+    const cached = new CachingMetadataProvider(provider);
+
+    expect(await cached.getSkillInfo(99999)).toBeNull();
+    expect(await cached.getSkillInfo(99999)).toBeNull();
+    expect(provider.getSkillInfo).toHaveBeenCalledTimes(1);
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const provider = createProvider();
+    const cached = new CachingMetadataProvider(provider, { maxEntries: 2 });
+
+    await cached.getSkillInfo(1);
+    await cached.getSkillInfo(2);
+    await cached.getSkillInfo(1); // 2 is now the least recently used
+    await cached.getSkillInfo(3);
+    await cached.getSkillInfo(1);
+    await cached.getSkillInfo(2);
+
+    expect(provider.getSkillInfo.mock.calls.map(([id]) => id)).toEqual([
+      1, 2, 3, 2,
+    ]);
+  });
+
+  it('should look entries up again after the TTL', async () => {
+    vi.useFakeTimers();
+    const provider = createProvider();
+    const cached = new CachingMetadataProvider(provider, { ttl: 1000 });
+
+    await cached.getSpecializationInfo(53);
+    vi.advanceTimersByTime(999);
+    await cached.getSpecializationInfo(53);
+    expect(provider.getSpecializationInfo).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1);
+    await cached.getSpecializationInfo(53);
+    expect(provider.getSpecializationInfo).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache failed lookups', async () => {
+    const provider = createProvider();
+    provider.getSkillInfo.mockRejectedValueOnce(new Error('429 Too Many Requests'));
+    const cached = new CachingMetadataProvider(provider);
+
+    await expect(cached.getSkillInfo(10527)).rejects.toThrow('429');
+    expect(await cached.getSkillInfo(10527)).toMatchObject({ id: 10527 });
+    expect(provider.getSkillInfo).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only expose optional lookups the provider implements', async () => {
+    const provider = createProvider();
+    const getPetInfo = vi.fn(async (id: number) => ({ id, name: 'Moa' }));
+
+    expect(new CachingMetadataProvider(provider).getPetInfo).toBeUndefined();
+    expect(new CachingMetadataProvider(provider).getLegendInfo).toBeUndefined();
+
+    const cached = new CachingMetadataProvider({ ...provider, getPetInfo });
+    await cached.getPetInfo?.(59);
+    await cached.getPetInfo?.(59);
+    expect(getPetInfo).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop all entries on clear', async () => {
+    const provider = createProvider();
+    const cached = new CachingMetadataProvider(provider);
+
+    await cached.getSkillInfo(10527);
+    cached.clear();
+    await cached.getSkillInfo(10527);
+
+    expect(provider.getSkillInfo).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('BuildValidator metadata lookups', () => {
+  const build: BuildCode = {
+    profession: Profession.Necromancer,
+    specializations: [
+      { id: 53, traits: [TraitChoice.Top, TraitChoice.Top, TraitChoice.Top] },
+      { id: 50, traits: [TraitChoice.Top, TraitChoice.Top, TraitChoice.Top] },
+      { id: 34, traits: [TraitChoice.Top, TraitChoice.Top, TraitChoice.Top] },
+    ],
+    skills: {
+      heal: 10527,
+      utility1: 10532,
+      utility2: 10533,
+      utility3: 10534,
+      elite: 10550,
+      aquaticHeal: 10527,
+      aquaticUtility1: 10532,
+      aquaticUtility2: 10533,
+      aquaticUtility3: 10534,
+      aquaticElite: 10550,
+    },
+  };
+
+  it('should start all lookups before waiting for any', async () => {
+    const provider = createProvider();
+    let pending = 0;
+    let maxPending = 0;
+    const track =
+      <T>(lookup: (id: number) => Promise<T>) =>
+      async (id: number) => {
+        maxPending = Math.max(maxPending, ++pending);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        pending--;
+        return lookup(id);
+      };
+
+    const validator = new BuildValidator({
+      getSkillInfo: track(provider.getSkillInfo),
+      getSpecializationInfo: track(provider.getSpecializationInfo),
+    });
+    const result = await validator.validate(build);
+
+    expect(result.valid).toBe(true);
+    expect(maxPending).toBe(8); // 5 distinct skills + 3 specializations
+  });
+
+  it('should reuse cached metadata across builds', async () => {
+    const provider = createProvider();
+    const validator = new BuildValidator(new CachingMetadataProvider(provider));
+
+    const results = await Promise.all(
+      Array.from({ length: 200 }, () => validator.validate(build)),
+    );
+
+    expect(results.every((result) => result.valid)).toBe(true);
+    expect(provider.getSkillInfo).toHaveBeenCalledTimes(5);
+    expect(provider.getSpecializationInfo).toHaveBeenCalledTimes(3);
+  });
+});
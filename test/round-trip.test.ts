@@ -2,14 +2,25 @@
  * Round-trip tests: encode(decode(x)) === x
  */
 
-import { describe, it, expect } from 'vitest';
-import { decode } from '../src/decoder.js';
-import { encode } from '../src/encoder.js';
+import { describe, it, expect, vi } from 'vitest';
+import { decode, decodeSync } from '../src/decoder.js';
+import { encode, encodeSync } from '../src/encoder.js';
+import { BuildCodeError, BuildCodeErrorCode } from '../src/errors.js';
 import { Profession, TraitChoice } from '../src/types.js';
-import type { BuildCode } from '../src/types.js';
-import { MockPaletteMapper } from './fixtures.js';
+import type {
+  BuildCode,
+  PaletteLookup,
+  PaletteMapper,
+  SkillLookup,
+} from '../src/types.js';
+import {
+  OFFICIAL_CODES,
+  MockPaletteMapper,
+  MockSyncPaletteMapper,
+} from './fixtures.js';
 
 const mockMapper = new MockPaletteMapper();
+const syncMapper = new MockSyncPaletteMapper();
 
 describe('round-trip encoding/decoding', () => {
   it('should encode and decode a simple build', async () => {
@@ -82,6 +93,35 @@ describe('round-trip encoding/decoding', () => {
     expect(decoded).toEqual(original);
   });
 
+  it('should encode and decode a Ranger build with aquatic pets', async () => {
+    const original: BuildCode = {
+      profession: Profession.Ranger,
+      specializations: [],
+      skills: {
+        heal: 11000,
+        utility1: 0,
+        utility2: 0,
+        utility3: 0,
+        elite: 0,
+        aquaticHeal: 11000,
+        aquaticUtility1: 0,
+        aquaticUtility2: 0,
+        aquaticUtility3: 0,
+        aquaticElite: 0,
+      },
+      professionSpecific: {
+        type: 'ranger',
+        pets: [59, 17],
+        aquaticPets: [21, 47],
+      },
+    };
+
+    const encoded = await encode(original, mockMapper);
+    const decoded = await decode(encoded, mockMapper);
+
+    expect(decoded).toEqual(original);
+  });
+
   it('should encode and decode a Revenant build', async () => {
     const original: BuildCode = {
       profession: Profession.Revenant,
@@ -116,6 +156,37 @@ describe('round-trip encoding/decoding', () => {
     expect(decoded).toEqual(original);
   });
 
+  it('should encode and decode a Revenant build with aquatic legends', async () => {
+    const original: BuildCode = {
+      profession: Profession.Revenant,
+      specializations: [],
+      skills: {
+        heal: 11500,
+        utility1: 12500,
+        utility2: 13500,
+        utility3: 14500,
+        elite: 15500,
+        aquaticHeal: 11600,
+        aquaticUtility1: 12600,
+        aquaticUtility2: 13600,
+        aquaticUtility3: 14600,
+        aquaticElite: 15600,
+      },
+      professionSpecific: {
+        type: 'revenant',
+        legends: [3, 5],
+        inactiveSkills: [11001, 12002, 13003],
+        aquaticLegends: [4, 1],
+        aquaticInactiveSkills: [11004, 12005, 13006],
+      },
+    };
+
+    const encoded = await encode(original, mockMapper);
+    const decoded = await decode(encoded, mockMapper);
+
+    expect(decoded).toEqual(original);
+  });
+
   it('should handle builds with no specializations', async () => {
     const original: BuildCode = {
       profession: Profession.Guardian,
@@ -243,4 +314,293 @@ describe('round-trip encoding/decoding', () => {
     expect(decoded.skills.aquaticUtility3).toBe(15000);
     expect(decoded.skills.aquaticElite).toBe(15130);
   });
+
+  describe('lossless mode', () => {
+    it.each(Object.entries(OFFICIAL_CODES))(
+      'should reproduce the official %s code byte for byte',
+      async (_name, fixture) => {
+        const decoded = await decode(fixture.chatLink, mockMapper, {
+          lossless: true,
+        });
+        const encoded = await encode(decoded, mockMapper);
+
+        expect(encoded).toBe(fixture.chatLink);
+      },
+    );
+
+    it('should preserve unmodelled profession-specific bytes', async () => {
+      const buffer = Buffer.alloc(44);
+      buffer[0] = 0x0d;
+      buffer[1] = 4; // Ranger
+      buffer[28] = 59; // Pet
+      buffer[35] = 0xab; // Unmodelled
+      const chatLink = `[&${buffer.toString('base64')}]`;
+
+      const decoded = await decode(chatLink, mockMapper, { lossless: true });
+
+      expect(decoded.unparsed?.professionBlock).toHaveLength(16);
+      expect(decoded.unparsed?.professionBlock?.[7]).toBe(0xab);
+      expect(await encode(decoded, mockMapper)).toBe(chatLink);
+    });
+
+    it('should preserve an empty extension and trailing bytes', async () => {
+      const buffer = Buffer.alloc(49);
+      buffer[0] = 0x0d;
+      buffer[1] = 8; // Necromancer
+      buffer[44] = 0; // Weapon count
+      buffer[45] = 0; // Skill variant count
+      buffer[46] = 1; // Trailing bytes
+      buffer[47] = 2;
+      buffer[48] = 3;
+      const chatLink = `[&${buffer.toString('base64')}]`;
+
+      const decoded = await decode(chatLink, mockMapper, { lossless: true });
+
+      expect(decoded.unparsed).toEqual({
+        emptyExtension: true,
+        trailing: [1, 2, 3],
+      });
+      expect(await encode(decoded, mockMapper)).toBe(chatLink);
+    });
+
+    it('should preserve an extension without a skill variant count', async () => {
+      const buffer = Buffer.alloc(47);
+      buffer[0] = 0x0d;
+      buffer[1] = 8; // Necromancer
+      buffer[44] = 1; // Weapon count
+      buffer[45] = 47; // Dagger, then the link ends
+      const chatLink = `[&${buffer.toString('base64')}]`;
+
+      const decoded = await decode(chatLink, mockMapper, { lossless: true });
+
+      expect(decoded.weapons).toEqual([47]);
+      expect(decoded.unparsed).toEqual({ missingVariantCount: true });
+      expect(await encode(decoded, mockMapper)).toBe(chatLink);
+    });
+
+    describe('Revenant legends', () => {
+      /** Revenant link with utility and inactive utility palette indices set */
+      function revenantLink(bytes: Record<number, number>): string {
+        const buffer = Buffer.alloc(44);
+        buffer[0] = 0x0d;
+        buffer[1] = 9; // Revenant
+        buffer[12] = 10; // Utility 1
+        for (const [offset, value] of Object.entries(bytes)) {
+          buffer[Number(offset)] = value;
+        }
+        return `[&${buffer.toString('base64')}]`;
+      }
+
+      it('should keep a lone second legend in place', async () => {
+        const chatLink = revenantLink({ 29: 1, 32: 20, 34: 21 });
+
+        const decoded = await decode(chatLink, mockMapper, { lossless: true });
+
+        expect(decoded.professionSpecific).toMatchObject({
+          legends: [0, 1],
+          inactiveSkills: [10020, 10021, 0],
+        });
+        expect(decoded.skills.utility1).toBe(10010);
+        expect(await encode(decoded, mockMapper)).toBe(chatLink);
+      });
+
+      it('should preserve inactive skills without a second legend', async () => {
+        const chatLink = revenantLink({ 28: 7, 32: 20, 37: 0xab });
+
+        const decoded = await decode(chatLink, mockMapper, { lossless: true });
+
+        expect(decoded.professionSpecific).toEqual({
+          type: 'revenant',
+          legends: [7],
+          inactiveSkills: undefined,
+        });
+        expect(decoded.unparsed?.professionBlock).toHaveLength(16);
+        expect(await encode(decoded, mockMapper)).toBe(chatLink);
+      });
+
+      it('should preserve aquatic inactive skills without aquatic legends', async () => {
+        const chatLink = revenantLink({ 28: 7, 29: 1, 32: 20, 40: 5 });
+
+        const decoded = await decode(chatLink, mockMapper, { lossless: true });
+
+        expect(decoded.professionSpecific).toMatchObject({
+          legends: [7, 1],
+          inactiveSkills: [10020, 0, 0],
+        });
+        expect(decoded.unparsed?.professionBlock?.[12]).toBe(5);
+        expect(await encode(decoded, mockMapper)).toBe(chatLink);
+      });
+    });
+
+    it('should drop the raw specialization block once specializations change', async () => {
+      const decoded = await decode(
+        OFFICIAL_CODES.partialRevenant.chatLink,
+        mockMapper,
+        { lossless: true },
+      );
+      expect(decoded.unparsed?.specializationBlock).toEqual([0, 0, 0, 0, 69, 0]);
+
+      decoded.specializations = [
+        { id: 12, traits: [TraitChoice.Top, TraitChoice.Top, TraitChoice.Top] },
+      ];
+      const redecoded = await decode(
+        await encode(decoded, mockMapper),
+        mockMapper,
+      );
+
+      expect(redecoded.specializations).toEqual(decoded.specializations);
+    });
+
+    it('should not record anything without the lossless option', async () => {
+      const decoded = await decode(OFFICIAL_CODES.amalgam.chatLink, mockMapper);
+
+      expect(decoded.unparsed).toBeUndefined();
+    });
+  });
+
+  describe('sync mode', () => {
+    it.each(Object.entries(OFFICIAL_CODES))(
+      'should decode the official %s code like the async decoder',
+      async (_name, fixture) => {
+        expect(decodeSync(fixture.chatLink, syncMapper)).toEqual(
+          await decode(fixture.chatLink, mockMapper),
+        );
+      },
+    );
+
+    it.each(Object.entries(OFFICIAL_CODES))(
+      'should reproduce the official %s code in lossless mode',
+      (_name, fixture) => {
+        const decoded = decodeSync(fixture.chatLink, syncMapper, {
+          lossless: true,
+        });
+
+        expect(encodeSync(decoded, syncMapper)).toBe(fixture.chatLink);
+      },
+    );
+
+    it('should accept a sync mapper in the async functions', async () => {
+      const chatLink = OFFICIAL_CODES.revenant.chatLink;
+      const decoded = await decode(chatLink, syncMapper);
+
+      expect(await encode(decoded, syncMapper)).toBe(
+        encodeSync(decoded, syncMapper),
+      );
+    });
+
+    it('should wrap sync mapper failures in BuildCodeError', () => {
+      const failingMapper = {
+        paletteToSkill: () => {
+          throw new Error('unknown palette index');
+        },
+        skillToPalette: () => {
+          throw new Error('unknown skill');
+        },
+      };
+
+      let error: unknown;
+      try {
+        decodeSync(OFFICIAL_CODES.fullNecro.chatLink, failingMapper);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(BuildCodeError);
+      expect(error).toMatchObject({
+        code: BuildCodeErrorCode.PALETTE_LOOKUP_FAILED,
+      });
+    });
+  });
+
+  describe('batch mappers', () => {
+    const createBatchMapper = () => {
+      const mapper = {
+        paletteToSkill: vi.fn(mockMapper.paletteToSkill.bind(mockMapper)),
+        skillToPalette: vi.fn(mockMapper.skillToPalette.bind(mockMapper)),
+        paletteToSkillBatch: vi.fn(async (lookups: PaletteLookup[]) =>
+          lookups.map((lookup) => lookup.paletteIndex + 10000),
+        ),
+        skillToPaletteBatch: vi.fn(async (lookups: SkillLookup[]) =>
+          lookups.map((lookup) => lookup.skillId - 10000),
+        ),
+      } satisfies PaletteMapper;
+      return mapper;
+    };
+
+    it.each(Object.entries(OFFICIAL_CODES))(
+      'should resolve the official %s code with at most one call per direction',
+      async (_name, fixture) => {
+        const mapper = createBatchMapper();
+
+        const decoded = await decode(fixture.chatLink, mapper);
+        const encoded = await encode(decoded, mapper);
+
+        expect(decoded).toEqual(await decode(fixture.chatLink, mockMapper));
+        expect(encoded).toBe(await encode(decoded, mockMapper));
+        expect(mapper.paletteToSkillBatch.mock.calls.length).toBeLessThanOrEqual(1);
+        expect(mapper.skillToPaletteBatch.mock.calls.length).toBeLessThanOrEqual(1);
+        expect(mapper.paletteToSkill).not.toHaveBeenCalled();
+        expect(mapper.skillToPalette).not.toHaveBeenCalled();
+      },
+    );
+
+    it('should pass Revenant legends with each lookup', async () => {
+      const mapper = createBatchMapper();
+
+      await decode(OFFICIAL_CODES.revenant.chatLink, mapper);
+
+      const lookups = mapper.paletteToSkillBatch.mock.calls[0][0];
+      expect(lookups.length).toBeGreaterThan(0);
+      expect(lookups.every((lookup) => lookup.legend !== undefined)).toBe(true);
+      expect(Object.keys(lookups[0]).sort()).toEqual([
+        'legend',
+        'paletteIndex',
+        'profession',
+      ]);
+    });
+
+    it('should not call the batch method for a build without skills', async () => {
+      const mapper = createBatchMapper();
+      const build: BuildCode = {
+        profession: Profession.Warrior,
+        specializations: [],
+        skills: {
+          heal: 0,
+          aquaticHeal: 0,
+          utility1: 0,
+          aquaticUtility1: 0,
+          utility2: 0,
+          aquaticUtility2: 0,
+          utility3: 0,
+          aquaticUtility3: 0,
+          elite: 0,
+          aquaticElite: 0,
+        },
+      };
+
+      await decode(await encode(build, mapper), mapper);
+
+      expect(mapper.skillToPaletteBatch).not.toHaveBeenCalled();
+      expect(mapper.paletteToSkillBatch).not.toHaveBeenCalled();
+    });
+
+    it('should reject a batch result with the wrong number of entries', async () => {
+      const mapper = createBatchMapper();
+      mapper.paletteToSkillBatch.mockResolvedValueOnce([10001]);
+
+      await expect(
+        decode(OFFICIAL_CODES.fullNecro.chatLink, mapper),
+      ).rejects.toMatchObject({
+        code: BuildCodeErrorCode.PALETTE_LOOKUP_FAILED,
+      });
+    });
+
+    it('should wrap batch failures in BuildCodeError', async () => {
+      const mapper = createBatchMapper();
+      mapper.skillToPaletteBatch.mockRejectedValueOnce(new Error('offline'));
+      const build = await decode(OFFICIAL_CODES.fullNecro.chatLink, mapper);
+
+      await expect(encode(build, mapper)).rejects.toBeInstanceOf(BuildCodeError);
+    });
+  });
 });
@@ -0,0 +1,117 @@
+/**
+ * Tests for the offline SnapshotMetadataProvider
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SnapshotMetadataProvider } from '../src/snapshot-metadata-provider.js';
+import { BuildValidator } from '../src/validator.js';
+import { Profession, TraitChoice } from '../src/types.js';
+import type { BuildCode } from '../src/types.js';
+import type { ProfessionSnapshot } from '../src/table-palette-mapper.js';
+import { ValidationErrorType } from '../src/validation-types.js';
+import skills from './snapshots/skills.json';
+import specializations from './snapshots/specializations.json';
+import pets from './snapshots/pets.json';
+import professions from './snapshots/professions.json';
+import legends from './snapshots/legends.json';
+
+const metadata = new SnapshotMetadataProvider({
+  skills,
+  specializations,
+  pets,
+  professions: professions as ProfessionSnapshot[],
+  legends,
+});
+
+const top: [TraitChoice, TraitChoice, TraitChoice] = [
+  TraitChoice.Top,
+  TraitChoice.Top,
+  TraitChoice.Top,
+];
+
+describe('SnapshotMetadataProvider', () => {
+  it('should look up skills, specializations and pets by ID', async () => {
+    expect(await metadata.getSkillInfo(10546)).toEqual({
+      id: 10546,
+      name: 'Well of Suffering',
+      professions: ['Necromancer'],
+      type: 'Utility',
+      slot: 'Utility',
+      flags: ['NoUnderwater'],
+    });
+    expect(await metadata.getSkillInfo(62702)).toMatchObject({
+      specialization: 69,
+    });
+    expect(await metadata.getSpecializationInfo(34)).toEqual({
+      id: 34,
+      name: 'Reaper',
+      profession: 'Necromancer',
+      elite: true,
+    });
+    expect(await metadata.getPetInfo?.(59)).toEqual({
+      id: 59,
+      name: 'Juvenile Pink Moa',
+    });
+    expect(await metadata.getSkillInfo(1)).toBeNull();
+    expect(await metadata.getSpecializationInfo(1)).toBeNull();
+    expect(await metadata.getPetInfo?.(1)).toBeNull();
+  });
+
+  it('should key legends by build template code', async () => {
+    expect(await metadata.getLegendInfo?.(2)).toEqual({
+      id: 2,
+      heal: 27372,
+      utilities: [28516, 26644, 26557],
+      elite: 27107,
+    });
+    expect(await metadata.getLegendInfo?.(3)).toBeNull();
+  });
+
+  it('should read profession weapons', async () => {
+    expect(
+      (await metadata.getProfessionInfo?.('Necromancer'))?.weapons.Greatsword,
+    ).toMatchObject({ specialization: 34 });
+    expect(await metadata.getProfessionInfo?.('Tengu')).toBeNull();
+  });
+
+  it('should only enable optional lookups for provided snapshots', () => {
+    const minimal = new SnapshotMetadataProvider({ skills, specializations });
+
+    expect(minimal.getPetInfo).toBeUndefined();
+    expect(minimal.getProfessionInfo).toBeUndefined();
+    expect(minimal.getLegendInfo).toBeUndefined();
+  });
+
+  it('should validate builds offline', async () => {
+    const build: BuildCode = {
+      profession: Profession.Necromancer,
+      specializations: [
+        { id: 53, traits: top },
+        { id: 50, traits: top },
+        { id: 27, traits: top },
+      ],
+      skills: {
+        heal: 10527,
+        utility1: 10549,
+        utility2: 10554,
+        utility3: 0,
+        elite: 10550,
+        aquaticHeal: 10527,
+        aquaticUtility1: 10546,
+        aquaticUtility2: 0,
+        aquaticUtility3: 0,
+        aquaticElite: 10550,
+      },
+      weapons: [50],
+    };
+
+    const result = await new BuildValidator(metadata).validate(build);
+
+    expect(result.errors.map((error) => [error.type, error.path])).toEqual([
+      [ValidationErrorType.SKILL_SLOT_MISMATCH, '/skills/utility2'],
+      [ValidationErrorType.SKILL_NOT_USABLE_UNDERWATER, '/skills/aquaticUtility1'],
+      [ValidationErrorType.SPECIALIZATION_NOT_FOR_PROFESSION, '/specializations/2'],
+      [ValidationErrorType.WEAPON_REQUIRES_SPECIALIZATION, '/weapons/0'],
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Tests for the static specialization catalog
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decode } from '../src/decoder.js';
+import {
+  SPECIALIZATIONS,
+  getEliteSpecialization,
+  getProfessionSpecializations,
+  getSpecializationName,
+  isEliteSpecialization,
+} from '../src/specializations.js';
+import { Profession } from '../src/types.js';
+import { OFFICIAL_CODES, MockPaletteMapper } from './fixtures.js';
+
+const mockMapper = new MockPaletteMapper();
+
+describe('specialization catalog', () => {
+  it('should give every profession 5 core and 4 elite specializations', () => {
+    for (let profession = 1; profession <= 9; profession++) {
+      const specs = getProfessionSpecializations(profession);
+
+      expect(specs.filter((spec) => !spec.elite)).toHaveLength(5);
+      expect(specs.filter((spec) => spec.elite)).toHaveLength(4);
+    }
+    expect(Object.keys(SPECIALIZATIONS)).toHaveLength(81);
+  });
+
+  it('should name specializations by ID', () => {
+    expect(getSpecializationName(34)).toBe('Reaper');
+    expect(getSpecializationName(60)).toBe('Scourge');
+    expect(getSpecializationName(50)).toBe('Soul Reaping');
+    expect(getSpecializationName(999)).toBeUndefined();
+  });
+
+  it('should flag elite specializations', () => {
+    expect(isEliteSpecialization(70)).toBe(true);
+    expect(isEliteSpecialization(6)).toBe(false);
+    expect(isEliteSpecialization(0)).toBe(false);
+  });
+
+  it.each([
+    ['fullNecro', 'Reaper', Profession.Necromancer],
+    ['partialRevenant', 'Vindicator', Profession.Revenant],
+    ['amalgam', 'Amalgam', Profession.Engineer],
+    ['rangerPets', 'Soulbeast', Profession.Ranger],
+  ] as const)(
+    'should detect the elite specialization of the %s code',
+    async (name, eliteName, profession) => {
+      const build = await decode(OFFICIAL_CODES[name].chatLink, mockMapper);
+      const elite = getEliteSpecialization(build);
+
+      expect(elite?.name).toBe(eliteName);
+      expect(elite?.profession).toBe(profession);
+    },
+  );
+
+  it('should return undefined for core builds', () => {
+    expect(
+      getEliteSpecialization({
+        specializations: [
+          { id: 53, traits: [1, 2, 2] },
+          { id: 50, traits: [1, 1, 2] },
+          { id: 39, traits: [2, 1, 3] },
+        ],
+      }),
+    ).toBeUndefined();
+  });
+});
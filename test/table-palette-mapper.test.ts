@@ -0,0 +1,106 @@
+/**
+ * Tests for the offline TablePaletteMapper
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decode, decodeSync } from '../src/decoder.js';
+import { encodeSync } from '../src/encoder.js';
+import { BuildCodeError, BuildCodeErrorCode } from '../src/errors.js';
+import {
+  TablePaletteMapper,
+  createPaletteTable,
+} from '../src/table-palette-mapper.js';
+import type {
+  LegendSnapshot,
+  ProfessionSnapshot,
+} from '../src/table-palette-mapper.js';
+import { Profession } from '../src/types.js';
+import { OFFICIAL_CODES } from './fixtures.js';
+import professions from './snapshots/professions.json';
+import legends from './snapshots/legends.json';
+
+const mapper = TablePaletteMapper.fromSnapshot(
+  professions as ProfessionSnapshot[],
+  legends as LegendSnapshot[],
+);
+
+describe('createPaletteTable', () => {
+  it('should key professions and legends by build template code', () => {
+    const table = createPaletteTable(
+      professions as ProfessionSnapshot[],
+      legends as LegendSnapshot[],
+    );
+
+    expect(Object.keys(table.professions)).toEqual(['3', '8', '9']);
+    expect(table.professions[8]).toContainEqual([4801, 10527]);
+    expect(Object.keys(table.legends ?? {})).toEqual(['1', '2', '7']);
+    expect(table.legends?.[2]).toEqual({
+      heal: 27372,
+      utilities: [28516, 26644, 26557],
+      elite: 27107,
+    });
+  });
+
+  it('should reject professions it cannot identify', () => {
+    expect(() =>
+      createPaletteTable([{ id: 'Tengu', skills_by_palette: [] }]),
+    ).toThrow(BuildCodeError);
+  });
+});
+
+describe('TablePaletteMapper', () => {
+  it('should map palette indices in both directions', () => {
+    expect(mapper.paletteToSkill(Profession.Necromancer, 4801)).toBe(10527);
+    expect(mapper.skillToPalette(Profession.Necromancer, 10527)).toBe(4801);
+    expect(mapper.paletteToSkill(Profession.Engineer, 296)).toBe(5802);
+    expect(mapper.paletteToSkill(Profession.Necromancer, 0)).toBe(0);
+    expect(mapper.skillToPalette(Profession.Necromancer, 0)).toBe(0);
+  });
+
+  it('should throw PALETTE_LOOKUP_FAILED for unknown entries', () => {
+    expect(() => mapper.paletteToSkill(Profession.Necromancer, 9999)).toThrow(
+      expect.objectContaining({
+        code: BuildCodeErrorCode.PALETTE_LOOKUP_FAILED,
+      }),
+    );
+    expect(() => mapper.skillToPalette(Profession.Guardian, 10527)).toThrow(
+      BuildCodeError,
+    );
+  });
+
+  it('should resolve Revenant slots against the requested legend', () => {
+    expect(mapper.paletteToSkill(Profession.Revenant, 4572, 7)).toBe(62749);
+    expect(mapper.paletteToSkill(Profession.Revenant, 4651, 2)).toBe(26644);
+    expect(mapper.paletteToSkill(Profession.Revenant, 4554, 1)).toBe(28406);
+    expect(mapper.skillToPalette(Profession.Revenant, 62749)).toBe(4572);
+    expect(mapper.skillToPalette(Profession.Revenant, 26557)).toBe(4564);
+  });
+
+  it('should decode an official Revenant code offline', () => {
+    const build = decodeSync(OFFICIAL_CODES.revenant.chatLink, mapper);
+
+    expect(build.skills).toMatchObject({
+      heal: 62749,
+      utility1: 62702,
+      utility2: 62832,
+      utility3: 62962,
+      elite: 62942,
+    });
+    expect(build.professionSpecific).toEqual({
+      type: 'revenant',
+      legends: [7, 1],
+      inactiveSkills: [27760, 27975, 26821],
+    });
+  });
+
+  it.each(['fullNecro', 'revenant', 'partialRevenant', 'amalgam'] as const)(
+    'should round-trip the official %s code',
+    async (name) => {
+      const { chatLink } = OFFICIAL_CODES[name];
+      const build = decodeSync(chatLink, mapper, { lossless: true });
+
+      expect(encodeSync(build, mapper)).toBe(chatLink);
+      expect(await decode(chatLink, mapper, { lossless: true })).toEqual(build);
+    },
+  );
+});
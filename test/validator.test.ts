@@ -5,9 +5,15 @@
 import { describe, it, expect, vi } from 'vitest';
 import { BuildValidator } from '../src/validator.js';
 import type { MetadataProvider } from '../src/validator.js';
-import { Profession, TraitChoice } from '../src/types.js';
-import type { BuildCode } from '../src/types.js';
-import { ValidationErrorType } from '../src/validation-types.js';
+import { DEFAULT_RULES } from '../src/validation-rules.js';
+import type { ValidationRule } from '../src/validation-rules.js';
+import { Legend, Profession, TraitChoice } from '../src/types.js';
+import type { BuildCode, RevenantData } from '../src/types.js';
+import {
+  ValidationErrorType,
+  ValidationWarningType,
+} from '../src/validation-types.js';
+import type { LegendInfo } from '../src/validation-types.js';
 
 describe('BuildValidator', () => {
   // Mock metadata provider
@@ -35,6 +41,44 @@ describe('BuildValidator', () => {
           type: 'Utility',
           slot: 'Utility',
         },
+        10400: {
+          id: 10400,
+          name: 'Old Utility',
+          professions: ['Necromancer'],
+          type: 'Utility',
+          slot: 'Utility',
+          deprecated: true,
+        },
+        10500: {
+          id: 10500,
+          name: 'Test Elite',
+          professions: ['Necromancer'],
+          type: 'Elite',
+          slot: 'Elite',
+        },
+        10600: {
+          id: 10600,
+          name: 'Test Shade Skill',
+          professions: ['Necromancer'],
+          type: 'Utility',
+          slot: 'Utility',
+          specialization: 60,
+        },
+        10700: {
+          id: 10700,
+          name: 'Test Land Utility',
+          professions: ['Necromancer'],
+          type: 'Utility',
+          slot: 'Utility',
+          flags: ['NoUnderwater'],
+        },
+        10800: {
+          id: 10800,
+          name: 'Test Weapon Skill',
+          professions: ['Necromancer'],
+          type: 'Weapon',
+          slot: 'Weapon_1',
+        },
       };
       return validSkills[skillId] || null;
     }),
@@ -64,6 +108,12 @@ describe('BuildValidator', () => {
           profession: 'Guardian',
           elite: true,
         },
+        60: {
+          id: 60,
+          name: 'Scourge',
+          profession: 'Necromancer',
+          elite: true,
+        },
       };
       return validSpecs[specId] || null;
     }),
@@ -105,6 +155,7 @@ describe('BuildValidator', () => {
 
       expect(result.valid).toBe(true);
       expect(result.errors).toHaveLength(0);
+      expect(result.warnings).toHaveLength(0);
     });
 
     it('should validate a build with aquatic skills', async () => {
@@ -219,6 +270,97 @@ describe('BuildValidator', () => {
     });
   });
 
+  describe('Skill bar rules', () => {
+    const reaperSpecs: BuildCode['specializations'] = [
+      { id: 53, traits: [TraitChoice.Top, TraitChoice.Top, TraitChoice.Top] },
+      { id: 50, traits: [TraitChoice.Top, TraitChoice.Top, TraitChoice.Top] },
+      { id: 34, traits: [TraitChoice.Top, TraitChoice.Top, TraitChoice.Top] },
+    ];
+    const barBuild = (skills: Partial<BuildCode['skills']>): BuildCode => ({
+      profession: Profession.Necromancer,
+      specializations: reaperSpecs,
+      skills: {
+        heal: 0,
+        utility1: 0,
+        utility2: 0,
+        utility3: 0,
+        elite: 0,
+        aquaticHeal: 0,
+        aquaticUtility1: 0,
+        aquaticUtility2: 0,
+        aquaticUtility3: 0,
+        aquaticElite: 0,
+        ...skills,
+      },
+    });
+
+    it('should reject the same utility equipped twice on one bar', async () => {
+      const result = await validator.validate(
+        barBuild({ utility1: 10200, utility3: 10200, aquaticUtility1: 10200 }),
+      );
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].type).toBe(ValidationErrorType.DUPLICATE_SKILL);
+      expect(result.errors[0].context).toMatchObject({
+        skillId: 10200,
+        slot: 'utility3',
+        firstSlot: 'utility1',
+      });
+    });
+
+    it('should check the aquatic bar for duplicates separately', async () => {
+      const result = await validator.validate(
+        barBuild({ aquaticUtility2: 10200, aquaticUtility3: 10200 }),
+      );
+
+      expect(result.errors.map((error) => error.type)).toEqual([
+        ValidationErrorType.DUPLICATE_SKILL,
+      ]);
+      expect(result.errors[0].context?.slot).toBe('aquaticUtility3');
+    });
+
+    it('should reject skills that cannot be equipped on the skill bar', async () => {
+      const result = await validator.validate(barBuild({ utility2: 10800 }));
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].type).toBe(ValidationErrorType.SKILL_SLOT_MISMATCH);
+      expect(result.errors[0].context).toMatchObject({
+        slot: 'utility2',
+        expectedSlot: 'Utility',
+        actualSlot: 'Weapon_1',
+      });
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it('should reject elite specialization skills without that specialization', async () => {
+      const result = await validator.validate(
+        barBuild({ utility1: 10600, aquaticUtility1: 10600 }),
+      );
+
+      expect(result.errors).toHaveLength(2);
+      expect(result.errors[0].type).toBe(
+        ValidationErrorType.SKILL_REQUIRES_SPECIALIZATION,
+      );
+      expect(result.errors[0].message).toContain('Scourge');
+      expect(result.errors[1].context).toMatchObject({
+        slot: 'aquaticUtility1',
+        requiredSpecializationId: 60,
+      });
+    });
+
+    it('should reject skills that cannot be used underwater on the aquatic bar', async () => {
+      const result = await validator.validate(
+        barBuild({ utility1: 10700, aquaticUtility1: 10700 }),
+      );
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].type).toBe(
+        ValidationErrorType.SKILL_NOT_USABLE_UNDERWATER,
+      );
+      expect(result.errors[0].context?.slot).toBe('aquaticUtility1');
+    });
+  });
+
   describe('Invalid specializations', () => {
     it('should detect non-existent specialization ID', async () => {
       const build: BuildCode = {
@@ -286,6 +428,126 @@ describe('BuildValidator', () => {
     });
   });
 
+  describe('Specialization structure', () => {
+    const top: [TraitChoice, TraitChoice, TraitChoice] = [
+      TraitChoice.Top,
+      TraitChoice.Top,
+      TraitChoice.Top,
+    ];
+    const necroBuild = (
+      specializations: BuildCode['specializations'],
+    ): BuildCode => ({
+      profession: Profession.Necromancer,
+      specializations,
+      skills: {
+        heal: 0,
+        utility1: 0,
+        utility2: 0,
+        utility3: 0,
+        elite: 0,
+        aquaticHeal: 0,
+        aquaticUtility1: 0,
+        aquaticUtility2: 0,
+        aquaticUtility3: 0,
+        aquaticElite: 0,
+      },
+    });
+    const errorTypes = (result: { errors: { type: string }[] }) =>
+      result.errors.map((error) => error.type);
+
+    it('should reject a specialization selected twice', async () => {
+      const result = await validator.validate(
+        necroBuild([
+          { id: 53, traits: top },
+          { id: 53, traits: top },
+          { id: 34, traits: top },
+        ]),
+      );
+
+      expect(errorTypes(result)).toEqual([
+        ValidationErrorType.DUPLICATE_SPECIALIZATION,
+      ]);
+      expect(result.errors[0].context).toMatchObject({
+        specializationId: 53,
+        index: 1,
+      });
+    });
+
+    it('should reject more than one elite specialization', async () => {
+      const result = await validator.validate(
+        necroBuild([
+          { id: 53, traits: top },
+          { id: 34, traits: top },
+          { id: 60, traits: top },
+        ]),
+      );
+
+      expect(errorTypes(result)).toEqual([
+        ValidationErrorType.MULTIPLE_ELITE_SPECIALIZATIONS,
+        ValidationErrorType.ELITE_SPECIALIZATION_NOT_IN_THIRD_SLOT,
+      ]);
+      expect(result.errors[0].context?.specializationIds).toEqual([34, 60]);
+      expect(result.errors[1].context?.specializationId).toBe(34);
+    });
+
+    it('should reject an elite specialization outside the third slot', async () => {
+      const result = await validator.validate(
+        necroBuild([
+          { id: 34, traits: top },
+          { id: 53, traits: top },
+          { id: 50, traits: top },
+        ]),
+      );
+
+      expect(errorTypes(result)).toEqual([
+        ValidationErrorType.ELITE_SPECIALIZATION_NOT_IN_THIRD_SLOT,
+      ]);
+    });
+
+    it('should accept a lone elite line whose empty lines were dropped', async () => {
+      const result = await validator.validate(necroBuild([{ id: 34, traits: top }]));
+
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should use the raw specialization block for slot positions', async () => {
+      const build = necroBuild([{ id: 34, traits: top }]);
+      build.unparsed = { specializationBlock: [34, 0x15, 0, 0, 0, 0] };
+
+      const result = await validator.validate(build);
+
+      expect(errorTypes(result)).toEqual([
+        ValidationErrorType.ELITE_SPECIALIZATION_NOT_IN_THIRD_SLOT,
+      ]);
+      expect(result.errors[0]).toMatchObject({
+        path: '/specializations/0',
+        context: { specializationSlot: 0 },
+      });
+
+      build.unparsed = { specializationBlock: [0, 0, 0, 0, 34, 0x15] };
+      expect((await validator.validate(build)).errors).toHaveLength(0);
+    });
+
+    it('should reject lines with unselected traits', async () => {
+      const result = await validator.validate(
+        necroBuild([
+          { id: 53, traits: top },
+          {
+            id: 50,
+            traits: [TraitChoice.Top, TraitChoice.None, TraitChoice.Bottom],
+          },
+          { id: 34, traits: top },
+        ]),
+      );
+
+      expect(errorTypes(result)).toEqual([ValidationErrorType.INCOMPLETE_TRAITS]);
+      expect(result.errors[0].context).toMatchObject({
+        specializationId: 50,
+        index: 1,
+      });
+    });
+  });
+
   describe('Invalid pets', () => {
     it('should detect invalid pet ID', async () => {
       const build: BuildCode = {
@@ -317,6 +579,42 @@ describe('BuildValidator', () => {
       expect(result.errors[0].context?.petId).toBe(999);
     });
 
+    it('should detect invalid aquatic pet ID', async () => {
+      const build: BuildCode = {
+        profession: Profession.Ranger,
+        specializations: [],
+        skills: {
+          heal: 0,
+          utility1: 0,
+          utility2: 0,
+          utility3: 0,
+          elite: 0,
+          aquaticHeal: 0,
+          aquaticUtility1: 0,
+          aquaticUtility2: 0,
+          aquaticUtility3: 0,
+          aquaticElite: 0,
+        },
+        professionSpecific: {
+          type: 'ranger',
+          pets: [59, 17],
+          aquaticPets: [0, 998],
+        },
+      };
+
+      const result = await validator.validate(build);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].type).toBe(ValidationErrorType.INVALID_PET_ID);
+      expect(result.errors[0].path).toBe('/professionSpecific/aquaticPets/1');
+      expect(result.errors[0].context).toMatchObject({
+        petId: 998,
+        index: 1,
+        aquatic: true,
+      });
+    });
+
     it('should allow empty pet slots (0)', async () => {
       const build: BuildCode = {
         profession: Profession.Ranger,
@@ -346,6 +644,375 @@ describe('BuildValidator', () => {
     });
   });
 
+  describe('Warnings', () => {
+    const eliteSpecs: BuildCode['specializations'] = [
+      { id: 53, traits: [TraitChoice.Top, TraitChoice.Top, TraitChoice.Top] },
+      { id: 50, traits: [TraitChoice.Top, TraitChoice.Top, TraitChoice.Top] },
+      { id: 34, traits: [TraitChoice.Top, TraitChoice.Top, TraitChoice.Top] },
+    ];
+    const emptySkills: BuildCode['skills'] = {
+      heal: 0,
+      utility1: 0,
+      utility2: 0,
+      utility3: 0,
+      elite: 0,
+      aquaticHeal: 0,
+      aquaticUtility1: 0,
+      aquaticUtility2: 0,
+      aquaticUtility3: 0,
+      aquaticElite: 0,
+    };
+
+    it('should warn about a heal skill in a utility slot', async () => {
+      const result = await validator.validate({
+        profession: Profession.Necromancer,
+        specializations: eliteSpecs,
+        skills: { ...emptySkills, utility1: 10100 },
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toHaveLength(1);
+      expect(result.warnings[0].type).toBe(
+        ValidationWarningType.SKILL_TYPE_MISMATCH,
+      );
+      expect(result.warnings[0].context).toMatchObject({
+        skillId: 10100,
+        slot: 'utility1',
+        expectedType: 'Utility',
+        actualType: 'Heal',
+      });
+    });
+
+    it('should warn about an elite skill in the aquatic heal slot', async () => {
+      const result = await validator.validate({
+        profession: Profession.Necromancer,
+        specializations: eliteSpecs,
+        skills: { ...emptySkills, aquaticHeal: 10500, elite: 10500 },
+      });
+
+      expect(result.warnings).toHaveLength(1);
+      expect(result.warnings[0].type).toBe(
+        ValidationWarningType.SKILL_TYPE_MISMATCH,
+      );
+      expect(result.warnings[0].context?.slot).toBe('aquaticHeal');
+    });
+
+    it('should warn about deprecated skills', async () => {
+      const result = await validator.validate({
+        profession: Profession.Necromancer,
+        specializations: eliteSpecs,
+        skills: { ...emptySkills, utility2: 10400 },
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toEqual([
+        expect.objectContaining({
+          type: ValidationWarningType.DEPRECATED_SKILL,
+          context: { skillId: 10400, slot: 'utility2' },
+        }),
+      ]);
+    });
+
+    it('should warn when the third line is not an elite specialization', async () => {
+      const result = await validator.validate({
+        profession: Profession.Necromancer,
+        specializations: [eliteSpecs[2], eliteSpecs[0], eliteSpecs[1]],
+        skills: emptySkills,
+      });
+
+      expect(result.warnings).toHaveLength(1);
+      expect(result.warnings[0].type).toBe(
+        ValidationWarningType.MISSING_ELITE_SPECIALIZATION,
+      );
+      expect(result.warnings[0].context?.specializationId).toBe(50);
+    });
+
+    it('should warn when there is no third line', async () => {
+      const result = await validator.validate({
+        profession: Profession.Necromancer,
+        specializations: eliteSpecs.slice(0, 2),
+        skills: emptySkills,
+      });
+
+      expect(result.warnings.map((warning) => warning.type)).toEqual([
+        ValidationWarningType.MISSING_ELITE_SPECIALIZATION,
+      ]);
+    });
+  });
+
+  describe('Revenant legends', () => {
+    const legendProvider: MetadataProvider = {
+      getSkillInfo: vi.fn(async (skillId: number) => ({
+        id: skillId,
+        name: `Skill ${skillId}`,
+        professions: ['Revenant'],
+        type: 'Utility',
+        slot: 'Utility',
+      })),
+      getSpecializationInfo: vi.fn(async (specId: number) => ({
+        id: specId,
+        name: `Spec ${specId}`,
+        profession: 'Revenant',
+        elite: specId === 63 || specId === 69,
+      })),
+      getLegendInfo: vi.fn(async (legendId: number) => {
+        const legends: Record<number, LegendInfo> = {
+          2: { id: 2, heal: 100, utilities: [201, 202, 203], elite: 300 },
+          4: { id: 4, heal: 110, utilities: [211, 212, 213], elite: 310 },
+          6: { id: 6, heal: 120, utilities: [221, 222, 223], elite: 320 },
+        };
+        return legends[legendId] ?? null;
+      }),
+    };
+    const legendValidator = new BuildValidator(legendProvider);
+
+    const revenantBuild = (
+      revenant: Omit<RevenantData, 'type'>,
+      specIds: number[] = [3, 12, 63],
+      utilities: [number, number, number] = [211, 212, 213],
+    ): BuildCode => ({
+      profession: Profession.Revenant,
+      specializations: specIds.map((id) => ({
+        id,
+        traits: [TraitChoice.Top, TraitChoice.Top, TraitChoice.Top],
+      })),
+      skills: {
+        heal: 0,
+        utility1: utilities[0],
+        utility2: utilities[1],
+        utility3: utilities[2],
+        elite: 0,
+        aquaticHeal: 0,
+        aquaticUtility1: 0,
+        aquaticUtility2: 0,
+        aquaticUtility3: 0,
+        aquaticElite: 0,
+      },
+      professionSpecific: { type: 'revenant', ...revenant },
+    });
+
+    it('should accept matching legends and skills', async () => {
+      const result = await legendValidator.validate(
+        revenantBuild({ legends: [4, 2], inactiveSkills: [201, 202, 203] }),
+      );
+
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should reject unknown legend IDs', async () => {
+      const result = await legendValidator.validate(
+        revenantBuild({ legends: [4, 12] }),
+      );
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].type).toBe(ValidationErrorType.INVALID_LEGEND_ID);
+      expect(result.errors[0].path).toBe('/professionSpecific/legends/1');
+      expect(result.errors[0].context).toMatchObject({
+        legendId: 12,
+        index: 1,
+        aquatic: false,
+      });
+    });
+
+    it('should reject active utilities of another legend', async () => {
+      const result = await legendValidator.validate(
+        revenantBuild({ legends: [4, 2] }, undefined, [211, 202, 0]),
+      );
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].type).toBe(
+        ValidationErrorType.LEGEND_SKILL_MISMATCH,
+      );
+      expect(result.errors[0].context).toMatchObject({
+        skillId: 202,
+        legendId: 4,
+        inactive: false,
+      });
+    });
+
+    it('should reject inactive skills that are not the second legend\'s', async () => {
+      const result = await legendValidator.validate(
+        revenantBuild({ legends: [4, 2], inactiveSkills: [211, 0, 0] }),
+      );
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].path).toBe('/professionSpecific/inactiveSkills/0');
+      expect(result.errors[0].context).toMatchObject({
+        skillId: 211,
+        legendId: 2,
+        index: 0,
+        inactive: true,
+      });
+    });
+
+    it('should check aquatic utilities against the terrestrial legend when no aquatic legend is set', async () => {
+      const build = revenantBuild({ legends: [4, 2] });
+      build.skills.aquaticUtility1 = 201;
+
+      const result = await legendValidator.validate(build);
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].path).toBe('/skills/aquaticUtility1');
+      expect(result.errors[0].context).toMatchObject({
+        skillId: 201,
+        legendId: 4,
+        aquatic: true,
+      });
+    });
+
+    it.each([
+      [Legend.Kalla, 63, 'Renegade'],
+      [Legend.Vindicator, 69, 'Vindicator'],
+    ])(
+      'should require the elite specialization of legend %i',
+      async (legend, specId, specName) => {
+        const result = await legendValidator.validate(
+          revenantBuild({ legends: [4], aquaticLegends: [legend] }, [3, 12, 15]),
+        );
+
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0].type).toBe(
+          ValidationErrorType.LEGEND_REQUIRES_SPECIALIZATION,
+        );
+        expect(result.errors[0].message).toContain(specName);
+        expect(result.errors[0].context).toMatchObject({
+          legendId: legend,
+          aquatic: true,
+          requiredSpecializationId: specId,
+        });
+      },
+    );
+
+    it('should skip skill checks when the provider has no legend metadata', async () => {
+      const result = await validator.validate(
+        revenantBuild({ legends: [4, 2], inactiveSkills: [1, 2, 3] }),
+      );
+
+      expect(
+        result.errors.filter(
+          (error) => error.type === ValidationErrorType.LEGEND_SKILL_MISMATCH,
+        ),
+      ).toHaveLength(0);
+    });
+  });
+
+  describe('Structured results', () => {
+    const emptySkills = {
+      heal: 0,
+      utility1: 0,
+      utility2: 0,
+      utility3: 0,
+      elite: 0,
+      aquaticHeal: 0,
+      aquaticUtility1: 0,
+      aquaticUtility2: 0,
+      aquaticUtility3: 0,
+      aquaticElite: 0,
+    };
+
+    it('should point errors at the offending field', async () => {
+      const result = await validator.validate({
+        profession: Profession.Necromancer,
+        specializations: [
+          { id: 53, traits: [TraitChoice.Top, TraitChoice.Top, TraitChoice.Top] },
+          { id: 27, traits: [TraitChoice.Top, TraitChoice.None, TraitChoice.Top] },
+          { id: 34, traits: [TraitChoice.Top, TraitChoice.Top, TraitChoice.Top] },
+        ],
+        skills: { ...emptySkills, heal: 10100, utility2: 888888 },
+      });
+
+      expect(
+        result.errors.map(({ type, path, ruleId, severity }) => ({
+          type,
+          path,
+          ruleId,
+          severity,
+        })),
+      ).toEqual([
+        {
+          type: ValidationErrorType.INVALID_SKILL_ID,
+          path: '/skills/utility2',
+          ruleId: 'skill-exists',
+          severity: 'error',
+        },
+        {
+          type: ValidationErrorType.SPECIALIZATION_NOT_FOR_PROFESSION,
+          path: '/specializations/1',
+          ruleId: 'specialization-profession',
+          severity: 'error',
+        },
+        {
+          type: ValidationErrorType.MULTIPLE_ELITE_SPECIALIZATIONS,
+          path: '/specializations',
+          ruleId: 'elite-specialization',
+          severity: 'error',
+        },
+        {
+          type: ValidationErrorType.ELITE_SPECIALIZATION_NOT_IN_THIRD_SLOT,
+          path: '/specializations/1',
+          ruleId: 'elite-specialization',
+          severity: 'error',
+        },
+        {
+          type: ValidationErrorType.INCOMPLETE_TRAITS,
+          path: '/specializations/1/traits/1',
+          ruleId: 'trait-completeness',
+          severity: 'error',
+        },
+      ]);
+    });
+
+    it('should use the skill slot in every skill context', async () => {
+      const result = await validator.validate({
+        profession: Profession.Necromancer,
+        specializations: [],
+        skills: { ...emptySkills, utility1: 10300, aquaticUtility3: 10400 },
+      });
+
+      expect(result.errors[0]).toMatchObject({
+        type: ValidationErrorType.SKILL_NOT_FOR_PROFESSION,
+        path: '/skills/utility1',
+        context: { skillId: 10300, slot: 'utility1' },
+      });
+      expect(result.warnings).toEqual([
+        {
+          type: ValidationWarningType.DEPRECATED_SKILL,
+          severity: 'warning',
+          ruleId: 'deprecated-skills',
+          message: 'Skill "Old Utility" (10400) is deprecated',
+          path: '/skills/aquaticUtility3',
+          context: { skillId: 10400, slot: 'aquaticUtility3' },
+        },
+        {
+          type: ValidationWarningType.MISSING_ELITE_SPECIALIZATION,
+          severity: 'warning',
+          ruleId: 'missing-elite-specialization',
+          message:
+            'Build has no third specialization line, so no elite specialization',
+          path: '/specializations',
+          context: { specializationId: undefined },
+        },
+      ]);
+    });
+
+    it('should narrow the context type by issue type', async () => {
+      const result = await validator.validate({
+        profession: Profession.Ranger,
+        specializations: [],
+        skills: emptySkills,
+        professionSpecific: { type: 'ranger', pets: [998, 59] },
+      });
+
+      const petIndices = result.errors.flatMap((error) =>
+        error.type === ValidationErrorType.INVALID_PET_ID
+          ? [error.context.index]
+          : [],
+      );
+      expect(petIndices).toEqual([0]);
+      expect(result.errors[0].path).toBe('/professionSpecific/pets/0');
+    });
+  });
+
   describe('Multiple errors', () => {
     it('should collect all validation errors', async () => {
       const build: BuildCode = {
@@ -387,4 +1054,250 @@ describe('BuildValidator', () => {
       expect(specErrors.length).toBeGreaterThan(0);
     });
   });
+
+  describe('Weapons and skill variants', () => {
+    const weaponProvider: MetadataProvider = {
+      ...mockProvider,
+      getProfessionInfo: vi.fn(async (profession: string) =>
+        profession === 'Necromancer'
+          ? {
+              name: 'Necromancer',
+              weapons: {
+                Dagger: { flags: ['Mainhand', 'Offhand'] },
+                Scepter: { flags: ['Mainhand'] },
+                Greatsword: { specialization: 34, flags: ['TwoHand'] },
+                Torch: { specialization: 60, flags: ['Offhand'] },
+              },
+            }
+          : null,
+      ),
+      getSkillVariantInfo: vi.fn(async (variantId: number) =>
+        variantId === 10201
+          ? { id: 10201, name: 'Test Utility (Empowered)', baseSkill: 10200 }
+          : variantId === 10301
+            ? { id: 10301, baseSkill: 10300 }
+            : null,
+      ),
+    };
+    const weaponValidator = new BuildValidator(weaponProvider);
+
+    const createBuild = (
+      eliteId: number,
+      weapons: number[],
+      skillVariants?: number[],
+    ): BuildCode => ({
+      profession: Profession.Necromancer,
+      specializations: [
+        { id: 53, traits: [TraitChoice.Top, TraitChoice.Top, TraitChoice.Top] },
+        { id: 50, traits: [TraitChoice.Top, TraitChoice.Top, TraitChoice.Top] },
+        { id: eliteId, traits: [TraitChoice.Top, TraitChoice.Top, TraitChoice.Top] },
+      ],
+      skills: {
+        heal: 10100,
+        utility1: 10200,
+        utility2: 0,
+        utility3: 0,
+        elite: 10500,
+        aquaticHeal: 0,
+        aquaticUtility1: 0,
+        aquaticUtility2: 0,
+        aquaticUtility3: 0,
+        aquaticElite: 0,
+      },
+      weapons,
+      skillVariants,
+    });
+
+    it('should accept core weapons and weapons of the equipped elite', async () => {
+      const result = await weaponValidator.validate(
+        createBuild(34, [47, 86, 50]),
+      );
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should flag an elite weapon without its specialization', async () => {
+      const result = await weaponValidator.validate(createBuild(60, [50]));
+
+      expect(result.errors).toEqual([
+        {
+          type: ValidationErrorType.WEAPON_REQUIRES_SPECIALIZATION,
+          severity: 'error',
+          ruleId: 'weapons',
+          message: 'Necromancer Greatsword requires Reaper',
+          path: '/weapons/0',
+          context: {
+            weaponId: 50,
+            weaponName: 'Greatsword',
+            index: 0,
+            requiredSpecializationId: 34,
+          },
+        },
+      ]);
+    });
+
+    it('should flag weapons the profession cannot wield', async () => {
+      const result = await weaponValidator.validate(createBuild(34, [51, 999]));
+
+      expect(result.errors.map((e) => e.type)).toEqual([
+        ValidationErrorType.WEAPON_NOT_FOR_PROFESSION,
+        ValidationErrorType.INVALID_WEAPON_TYPE,
+      ]);
+      expect(result.errors[0].context).toMatchObject({ weaponName: 'Hammer' });
+    });
+
+    it('should only check weapon type IDs without profession metadata', async () => {
+      const result = await validator.validate(createBuild(60, [50, 999]));
+
+      expect(result.errors.map((e) => e.type)).toEqual([
+        ValidationErrorType.INVALID_WEAPON_TYPE,
+      ]);
+    });
+
+    it('should check skill variants against the skill bar', async () => {
+      const valid = await weaponValidator.validate(
+        createBuild(34, [], [10201]),
+      );
+      const invalid = await weaponValidator.validate(
+        createBuild(34, [], [10301, 777]),
+      );
+
+      expect(valid.valid).toBe(true);
+      expect(invalid.errors).toEqual([
+        {
+          type: ValidationErrorType.SKILL_VARIANT_NOT_ON_BAR,
+          severity: 'error',
+          ruleId: 'skill-variants',
+          path: '/skillVariants/0',
+          message:
+            'Skill variant 10301 replaces skill 10300, which is not on the skill bar',
+          context: { variantId: 10301, index: 0, skillId: 10300 },
+        },
+        {
+          type: ValidationErrorType.INVALID_SKILL_VARIANT,
+          severity: 'error',
+          ruleId: 'skill-variants',
+          path: '/skillVariants/1',
+          message: 'Skill variant 777 does not exist in GW2 API',
+          context: { variantId: 777, index: 1 },
+        },
+      ]);
+    });
+  });
+
+  describe('Validation rules', () => {
+    const coreBuild: BuildCode = {
+      profession: Profession.Necromancer,
+      specializations: [
+        { id: 53, traits: [TraitChoice.Top, TraitChoice.Top, TraitChoice.Top] },
+        { id: 50, traits: [TraitChoice.Top, TraitChoice.Top, TraitChoice.Top] },
+      ],
+      skills: {
+        heal: 10100,
+        utility1: 10200,
+        utility2: 0,
+        utility3: 0,
+        elite: 10500,
+        aquaticHeal: 10100,
+        aquaticUtility1: 10200,
+        aquaticUtility2: 0,
+        aquaticUtility3: 0,
+        aquaticElite: 10500,
+      },
+    };
+
+    const noEliteInWvw: ValidationRule = {
+      id: 'no-elite-in-wvw',
+      check(build, _metadata, context) {
+        if (context.data.mode === 'wvw' && build.skills.elite !== 0) {
+          context.addError({
+            type: ValidationErrorType.RULE_VIOLATION,
+            message: `${context.professionName} elite skills are banned in WvW`,
+            context: { skillId: build.skills.elite },
+          });
+        }
+      },
+    };
+
+    it('should expose the built-in rules in run order', () => {
+      expect(new BuildValidator(mockProvider).getRules()).toEqual(DEFAULT_RULES);
+      expect(DEFAULT_RULES.map((rule) => rule.id)).toContain('skill-exists');
+      expect(new Set(DEFAULT_RULES.map((rule) => rule.id)).size).toBe(
+        DEFAULT_RULES.length,
+      );
+    });
+
+    it('should run custom rules with caller data', async () => {
+      const custom = new BuildValidator(mockProvider, { rules: [noEliteInWvw] });
+
+      const pve = await custom.validate(coreBuild);
+      const wvw = await custom.validate(coreBuild, { mode: 'wvw' });
+
+      expect(pve.valid).toBe(true);
+      expect(wvw.valid).toBe(false);
+      expect(wvw.errors).toEqual([
+        {
+          type: ValidationErrorType.RULE_VIOLATION,
+          severity: 'error',
+          ruleId: 'no-elite-in-wvw',
+          path: '',
+          message: 'Necromancer elite skills are banned in WvW',
+          context: { skillId: 10500 },
+        },
+      ]);
+    });
+
+    it('should add rules after construction', async () => {
+      const custom = new BuildValidator(mockProvider).addRule(noEliteInWvw);
+
+      expect(custom.getRules().at(-1)).toBe(noEliteInWvw);
+      expect(() => custom.addRule(noEliteInWvw)).toThrow(/already registered/);
+      expect((await custom.validate(coreBuild, { mode: 'wvw' })).valid).toBe(
+        false,
+      );
+    });
+
+    it('should skip disabled rules', async () => {
+      const result = await validator.validate(coreBuild);
+      expect(result.warnings.map((w) => w.type)).toContain(
+        ValidationWarningType.MISSING_ELITE_SPECIALIZATION,
+      );
+
+      const lenient = new BuildValidator(mockProvider, {
+        disabledRules: ['missing-elite-specialization'],
+      });
+      expect((await lenient.validate(coreBuild)).warnings).toHaveLength(0);
+
+      lenient.enableRule('missing-elite-specialization');
+      expect((await lenient.validate(coreBuild)).warnings).toHaveLength(1);
+
+      lenient.disableRule('missing-elite-specialization');
+      expect((await lenient.validate(coreBuild)).warnings).toHaveLength(0);
+    });
+
+    it('should run only custom rules without the defaults', async () => {
+      const custom = new BuildValidator(mockProvider, {
+        defaultRules: false,
+        rules: [noEliteInWvw],
+      });
+      const build: BuildCode = {
+        ...coreBuild,
+        skills: { ...coreBuild.skills, heal: 999999 },
+      };
+
+      expect(custom.getRules()).toEqual([noEliteInWvw]);
+      expect((await custom.validate(build)).valid).toBe(true);
+    });
+
+    it('should look up each skill once per validation', async () => {
+      const getSkillInfo = vi.fn((id: number) => mockProvider.getSkillInfo(id));
+      const counting = new BuildValidator({ ...mockProvider, getSkillInfo });
+
+      await counting.validate(coreBuild);
+
+      expect(getSkillInfo.mock.calls.map(([id]) => id).sort()).toEqual([
+        10100, 10200, 10500,
+      ]);
+    });
+  });
 });